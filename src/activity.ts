@@ -0,0 +1,84 @@
+import { CircuitOpenError, EmbeddingCancelledError, LmStudioHttpError } from "./retry";
+
+export type ActivityState = "idle" | "embedding" | "error" | "offline";
+
+export type ActivitySnapshot = {
+  state: ActivityState;
+  /** Embedded inputs per second over the last few seconds; null when nothing was embedded. */
+  itemsPerSecond: number | null;
+  error: string | null;
+};
+
+const RATE_WINDOW_MS = 10_000;
+
+let active = 0;
+let lastError: string | null = null;
+let offline = false;
+// [finishedAt, count] per completed call, pruned to the rate window.
+const completed: [number, number][] = [];
+const listeners = new Set<() => void>();
+
+function notify() {
+  for (const listener of listeners) listener();
+}
+
+function itemsPerSecond(now: number) {
+  while (completed.length && now - completed[0][0] > RATE_WINDOW_MS) completed.shift();
+  if (!completed.length) return null;
+  const total = completed.reduce((sum, [, n]) => sum + n, 0);
+  const span = Math.max(1_000, now - completed[0][0]);
+  return total / (span / 1000);
+}
+
+/** An embedding call in progress; call `finish` or `fail` exactly once. */
+export type EmbeddingJob = {
+  finish(embedded: number, error?: string | null): void;
+  fail(err: unknown): void;
+};
+
+export function beginEmbedding(): EmbeddingJob {
+  active++;
+  notify();
+  let done = false;
+  const end = () => {
+    if (done) return false;
+    done = true;
+    active = Math.max(0, active - 1);
+    return true;
+  };
+  return {
+    finish(embedded, error = null) {
+      if (!end()) return;
+      if (embedded > 0) completed.push([Date.now(), embedded]);
+      offline = false;
+      lastError = error;
+      notify();
+    },
+    fail(err) {
+      if (!end()) return;
+      if (err instanceof EmbeddingCancelledError) {
+        // Cancelling is not a server problem.
+        notify();
+        return;
+      }
+      // No answer at all (or a paused endpoint) means the server is down, not that it erred.
+      offline = err instanceof CircuitOpenError || (err instanceof LmStudioHttpError && err.status === 0);
+      lastError = (err as any)?.message ?? String(err);
+      notify();
+    }
+  };
+}
+
+export function getActivity(): ActivitySnapshot {
+  const now = Date.now();
+  const rate = itemsPerSecond(now);
+  if (active > 0) return { state: "embedding", itemsPerSecond: rate, error: null };
+  if (offline) return { state: "offline", itemsPerSecond: null, error: lastError };
+  if (lastError) return { state: "error", itemsPerSecond: null, error: lastError };
+  return { state: "idle", itemsPerSecond: null, error: null };
+}
+
+export function onActivityChanged(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
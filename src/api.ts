@@ -0,0 +1,151 @@
+import { ActivitySnapshot, getActivity } from "./activity";
+import { BackendId } from "./backends";
+import type { SelectedModel } from "./diagnostics";
+import { EndpointHealth } from "./endpoints";
+import {
+  ADAPTER_CLASSES,
+  cancelEmbedding,
+  configuredBackends,
+  embeddingKeyFor,
+  getEndpointHealth,
+  LmStudioEmbeddingAdapter,
+  listModels
+} from "./lmstudio";
+import { norm } from "./postprocess";
+import type { EmbedKind } from "./prefixes";
+
+/**
+ * The API other plugins use, at `app.plugins.plugins["smart-connections-lmstudio-embeddings"].api`.
+ * `version` is bumped whenever an existing member changes; new members don't bump it.
+ */
+export const API_VERSION = 1;
+
+export type EmbedOptions = {
+  /** Which prefix template is applied; defaults to "document". */
+  kind?: EmbedKind;
+  /** Defaults to the backend Smart Connections uses, else LM Studio. */
+  backend?: BackendId;
+  /** Model id on the backend; defaults to the model Smart Connections uses there, else the first one listed. */
+  model?: string;
+};
+
+/** One embedded text. `vec` is null and `error` set when the text could not be embedded. */
+export type EmbedResult = {
+  vec: number[] | null;
+  tokens: number;
+  error?: string;
+};
+
+export type ApiModel = {
+  backend: BackendId;
+  id: string;
+  /** The key vectors of this model are stored under, with the current settings. */
+  embeddingKey: string;
+  dims: number | null;
+  maxTokens: number | null;
+  loaded: boolean;
+};
+
+export type ApiHealth = {
+  activity: ActivitySnapshot;
+  endpoints: EndpointHealth[];
+  /** The model Smart Connections embeds with, when it is one of ours. */
+  model: SelectedModel | null;
+};
+
+export type EmbeddingApi = {
+  version: number;
+  embed(texts: string[], options?: EmbedOptions): Promise<EmbedResult[]>;
+  listModels(options?: { backend?: BackendId; refresh?: boolean }): Promise<ApiModel[]>;
+  health(): ApiHealth;
+  /** Cosine similarity of two vectors of the same length; 0 when either is all zeros. */
+  similarity(a: ArrayLike<number>, b: ArrayLike<number>): number;
+  /** Abort every embedding request in flight, including Smart Connections' own. */
+  cancel(reason?: string): void;
+};
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>) {
+  if (a.length !== b.length) throw new Error(`vector lengths differ (${a.length} vs ${b.length})`);
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  const denominator = norm(Array.from(a)) * norm(Array.from(b));
+  return denominator > 0 ? dot / denominator : 0;
+}
+
+/**
+ * Build the API. Embedding goes through adapter instances like the ones Smart Connections
+ * creates, so batching, retries, caching, cancellation and failure handling are the same;
+ * `currentModel` reports the model Smart Connections currently uses.
+ */
+export function createEmbeddingApi(currentModel: () => SelectedModel | null): EmbeddingApi {
+  // One adapter per backend and model, each with a minimal stand-in for SC's model object.
+  const adapters = new Map<string, LmStudioEmbeddingAdapter>();
+
+  const adapterFor = (options: EmbedOptions) => {
+    const current = currentModel();
+    const backend = options.backend ?? current?.backend ?? "lmstudio";
+    const model = options.model?.trim() || (current?.backend === backend ? current.modelId : "");
+    const key = `${backend}\u0000${model}`;
+    let adapter = adapters.get(key);
+    if (!adapter) {
+      adapter = new ADAPTER_CLASSES[backend]({ data: model ? { model_key: model } : {} });
+      adapters.set(key, adapter);
+    }
+    return adapter;
+  };
+
+  return {
+    version: API_VERSION,
+
+    async embed(texts, options = {}) {
+      if (!Array.isArray(texts)) throw new Error("embed expects an array of strings");
+      const inputs = texts.map((text) => String(text ?? ""));
+      const adapter = adapterFor(options);
+      // Always per-item errors: a padded zero vector would look like a real embedding here.
+      const items =
+        options.kind === "query"
+          ? await adapter.embed_queries(inputs, "item_errors")
+          : await adapter.embed_documents(inputs, "item_errors");
+      return items.map((item: any) => {
+        const error = item?.error?.message ?? (item?.vec ? null : "no embedding returned");
+        return error ? { vec: null, tokens: 0, error } : { vec: item.vec, tokens: item.tokens ?? 0 };
+      });
+    },
+
+    async listModels({ backend, refresh = false } = {}) {
+      const backends = backend ? [backend] : configuredBackends();
+      const lists = await Promise.all(
+        backends.map(async (id) => {
+          try {
+            return { id, models: Object.values(await listModels(refresh, id)) };
+          } catch (err) {
+            // One unreachable server shouldn't hide the others' models.
+            if (backend) throw err;
+            console.warn("[LM Studio Embeddings] failed to list models for the API", id, err);
+            return { id, models: [] };
+          }
+        })
+      );
+      return lists.flatMap(({ id, models }) =>
+        models.map((m) => ({
+          backend: id,
+          id: m.id,
+          embeddingKey: embeddingKeyFor(id, m.id),
+          dims: m.dims ?? null,
+          maxTokens: m.max_tokens ?? null,
+          loaded: m.loaded === true
+        }))
+      );
+    },
+
+    health() {
+      return { activity: getActivity(), endpoints: getEndpointHealth(), model: currentModel() };
+    },
+
+    similarity: cosineSimilarity,
+
+    cancel(reason) {
+      cancelEmbedding(reason);
+    }
+  };
+}
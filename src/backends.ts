@@ -0,0 +1,320 @@
+import { decodeBase64Vector } from "./decoder";
+import { LmStudioHttpError } from "./retry";
+
+export type BackendId = "lmstudio" | "ollama" | "llamacpp" | "tei" | "offline";
+
+/** A model as reported by a server, before filtering. */
+export type DiscoveredModel = {
+  id: string;
+  /** Server-reported model type ("embeddings", "llm", ...), null when the server has none. */
+  type: string | null;
+  dims?: number;
+  maxContextLength?: number;
+  quantization?: string;
+  state?: string;
+};
+
+/** Request bound to one endpoint of the backend. */
+export type BackendRequest = (path: string, init?: RequestInit, opts?: { retries?: number }) => Promise<any>;
+
+export type EmbeddingRequest = { path: string; body: Record<string, unknown> };
+
+export type EmbeddingRequestOptions = { base64?: boolean; dimensions?: number };
+
+/**
+ * Everything that differs between embedding servers: how to list models, what an
+ * embedding request looks like and where the vectors are in the response.
+ */
+export type BackendProfile = {
+  id: BackendId;
+  name: string;
+  /**
+   * Adapter key Smart Connections stores vectors under (`{adapterKey}-{model_key}`).
+   * Must never change, or existing embeddings stop being recognized.
+   */
+  adapterKey: string;
+  /** Every key the provider and adapter class are registered under. */
+  registryKeys: string[];
+  defaultUrl: string;
+  /** Whether embeddings can be requested as base64 (`encoding_format: "base64"`). */
+  base64?: boolean;
+  /** Whether the embedding request takes a Matryoshka `dimensions` parameter. */
+  dimensions?: boolean;
+  listModels(request: BackendRequest): Promise<DiscoveredModel[]>;
+  embedRequest(model: string, input: string | string[], opts?: EmbeddingRequestOptions): EmbeddingRequest;
+  extractEmbeddings(data: any): number[][];
+  usageTokens(data: any): number | null;
+  /** Exact token counting, for servers that expose it. */
+  tokenizeRequest?(model: string, text: string): EmbeddingRequest;
+  tokenCount?(data: any): number | null;
+};
+
+function positiveInt(value: any): number | undefined {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : undefined;
+}
+
+function positiveNumber(value: any): number | null {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/** Accepts number arrays and base64 strings the decoder worker didn't decode. */
+function asVectors(items: any[], where: string): number[][] {
+  return items.map((emb) => {
+    if (typeof emb === "string") return Array.from(decodeBase64Vector(emb));
+    if (!Array.isArray(emb)) throw new Error(`${where}: invalid embedding response`);
+    return emb;
+  });
+}
+
+/** OpenAI-compatible `/v1/models`: ids only (plus whatever extras the server adds). */
+async function listOpenAiModels(request: BackendRequest): Promise<DiscoveredModel[]> {
+  const data = await request("/v1/models");
+  const models: any[] = Array.isArray(data?.data) ? data.data : [];
+  return models.map((m) => ({
+    id: String(m?.id ?? "").trim(),
+    type: typeof m?.type === "string" ? m.type : null,
+    dims: positiveInt(m?.embedding_length ?? m?.dims ?? m?.dimensions),
+    maxContextLength: positiveInt(m?.max_context_length ?? m?.context_length)
+  }));
+}
+
+/** llama.cpp-style `/tokenize`, which LM Studio builds may expose too. */
+function llamaTokenizeRequest(model: string, text: string): EmbeddingRequest {
+  return { path: "/tokenize", body: { model, content: text, add_special: true } };
+}
+
+function llamaTokenCount(data: any) {
+  return Array.isArray(data?.tokens) ? data.tokens.length : null;
+}
+
+export const LM_STUDIO_BACKEND: BackendProfile = {
+  id: "lmstudio",
+  name: "LM Studio",
+  adapterKey: "lm_studio",
+  registryKeys: ["lm_studio", "lmstudio", "lm-studio"],
+  defaultUrl: "http://127.0.0.1:1234",
+  base64: true,
+  dimensions: true,
+
+  /**
+   * LM Studio's native REST API (`/api/v0/models`) reports type, quantization, load state
+   * and context length. Older builds only expose the OpenAI-compatible `/v1/models`; they
+   * answer 404 or 405, and only then is it asked. An unreachable server fails right away.
+   */
+  async listModels(request) {
+    let native: any;
+    try {
+      native = await request("/api/v0/models");
+    } catch (err) {
+      if (!(err instanceof LmStudioHttpError && (err.status === 404 || err.status === 405))) throw err;
+      console.log("[LM Studio Embeddings] native model endpoint unavailable; falling back to /v1/models");
+      return listOpenAiModels(request);
+    }
+
+    if (!Array.isArray(native?.data)) return listOpenAiModels(request);
+    return native.data.map((m: any) => ({
+      id: String(m?.id ?? "").trim(),
+      type: typeof m?.type === "string" ? m.type : null,
+      dims: positiveInt(m?.embedding_length ?? m?.dims ?? m?.dimensions),
+      maxContextLength: positiveInt(m?.max_context_length ?? m?.context_length),
+      quantization: typeof m?.quantization === "string" ? m.quantization : undefined,
+      state: typeof m?.state === "string" ? m.state : undefined
+    }));
+  },
+
+  embedRequest(model, input, opts) {
+    // LM Studio is typically OpenAI-compatible. `encoding_format` improves compatibility
+    // with newer servers that require an explicit output type; base64 is a fraction of
+    // the size of float JSON and much cheaper to parse.
+    const body: Record<string, unknown> = { model, input, encoding_format: opts?.base64 ? "base64" : "float" };
+    if (opts?.dimensions) body.dimensions = opts.dimensions;
+    return { path: "/v1/embeddings", body };
+  },
+
+  extractEmbeddings(data) {
+    const items: any[] = Array.isArray(data?.data) ? data.data : [];
+    return asVectors(
+      items.map((it) => it?.embedding),
+      "LM Studio"
+    );
+  },
+
+  usageTokens(data) {
+    return positiveNumber(data?.usage?.prompt_tokens ?? data?.usage?.total_tokens);
+  },
+
+  tokenizeRequest: llamaTokenizeRequest,
+  tokenCount: llamaTokenCount
+};
+
+export const OLLAMA_BACKEND: BackendProfile = {
+  id: "ollama",
+  name: "Ollama",
+  // Not "ollama": Smart Connections ships its own provider under that key.
+  adapterKey: "ollama_embed",
+  registryKeys: ["ollama_embed"],
+  defaultUrl: "http://127.0.0.1:11434",
+  dimensions: true,
+
+  async listModels(request) {
+    const data = await request("/api/tags");
+    const models: any[] = Array.isArray(data?.models) ? data.models : [];
+    return models.map((m) => {
+      const families: string[] = Array.isArray(m?.details?.families) ? m.details.families : [m?.details?.family];
+      // Ollama has no model type; BERT-family architectures are embedding-only.
+      const isBert = families.some((f) => typeof f === "string" && /bert/i.test(f));
+      return {
+        id: String(m?.model ?? m?.name ?? "").trim(),
+        type: isBert ? "embeddings" : null,
+        quantization: typeof m?.details?.quantization_level === "string" ? m.details.quantization_level : undefined
+      };
+    });
+  },
+
+  embedRequest(model, input, opts) {
+    const body: Record<string, unknown> = { model, input };
+    if (opts?.dimensions) body.dimensions = opts.dimensions;
+    return { path: "/api/embed", body };
+  },
+
+  extractEmbeddings(data) {
+    return asVectors(Array.isArray(data?.embeddings) ? data.embeddings : [], "Ollama");
+  },
+
+  usageTokens(data) {
+    return positiveNumber(data?.prompt_eval_count);
+  }
+};
+
+export const LLAMA_CPP_BACKEND: BackendProfile = {
+  id: "llamacpp",
+  name: "llama.cpp server",
+  adapterKey: "llama_cpp",
+  registryKeys: ["llama_cpp", "llamacpp"],
+  defaultUrl: "http://127.0.0.1:8080",
+
+  async listModels(request) {
+    // A llama.cpp server hosts exactly the model it was started with (with --embedding
+    // when it is used here), so whatever it lists is an embedding model.
+    const models = await listOpenAiModels(request);
+    return models.map((m) => ({ ...m, type: m.type ?? "embeddings", state: "loaded" }));
+  },
+
+  embedRequest(_model, input) {
+    return { path: "/embedding", body: { content: input } };
+  },
+
+  /**
+   * `/embedding` answers `[{ index, embedding }]`, where `embedding` is either the pooled
+   * vector or a one-element list holding it; old builds answer `{ embedding }` for a
+   * single input.
+   */
+  extractEmbeddings(data) {
+    const items: any[] = Array.isArray(data) ? data.slice().sort((a, b) => (a?.index ?? 0) - (b?.index ?? 0)) : [data];
+    return asVectors(
+      items.map((it) => {
+        const emb = it?.embedding;
+        return Array.isArray(emb) && Array.isArray(emb[0]) ? emb[0] : emb;
+      }),
+      "llama.cpp"
+    );
+  },
+
+  usageTokens(data) {
+    const items: any[] = Array.isArray(data) ? data : [];
+    const total = items.reduce((sum, it) => sum + (Number(it?.tokens_evaluated) || 0), 0);
+    return positiveNumber(total);
+  },
+
+  tokenizeRequest: llamaTokenizeRequest,
+  tokenCount: llamaTokenCount
+};
+
+export const TEI_BACKEND: BackendProfile = {
+  id: "tei",
+  name: "Text Embeddings Inference",
+  adapterKey: "tei",
+  registryKeys: ["tei", "text_embeddings_inference"],
+  defaultUrl: "http://127.0.0.1:8080",
+  dimensions: true,
+
+  async listModels(request) {
+    const info = await request("/info");
+    const id = String(info?.model_id ?? "").trim();
+    if (!id) return [];
+    return [
+      {
+        id,
+        type: info?.model_type?.embedding ? "embeddings" : "other",
+        maxContextLength: positiveInt(info?.max_input_length),
+        quantization: typeof info?.model_dtype === "string" ? info.model_dtype : undefined,
+        state: "loaded"
+      }
+    ];
+  },
+
+  embedRequest(_model, input, opts) {
+    const body: Record<string, unknown> = { inputs: input, truncate: true };
+    if (opts?.dimensions) body.dimensions = opts.dimensions;
+    return { path: "/embed", body };
+  },
+
+  extractEmbeddings(data) {
+    return asVectors(Array.isArray(data) ? data : [], "TEI");
+  },
+
+  usageTokens() {
+    return null;
+  },
+
+  tokenizeRequest(_model, text) {
+    return { path: "/tokenize", body: { inputs: text, add_special_tokens: true } };
+  },
+
+  tokenCount(data) {
+    return Array.isArray(data?.[0]) ? data[0].length : null;
+  }
+};
+
+/**
+ * The built-in offline backend (see offline.ts). Its endpoints are answered in-process,
+ * in the same OpenAI-compatible format as LM Studio.
+ */
+export const OFFLINE_BACKEND: BackendProfile = {
+  id: "offline",
+  name: "Offline (hashed n-grams)",
+  adapterKey: "offline_embed",
+  registryKeys: ["offline_embed"],
+  defaultUrl: "offline://local",
+  dimensions: true,
+
+  listModels: listOpenAiModels,
+
+  embedRequest(model, input, opts) {
+    const body: Record<string, unknown> = { model, input };
+    if (opts?.dimensions) body.dimensions = opts.dimensions;
+    return { path: "/v1/embeddings", body };
+  },
+
+  extractEmbeddings(data) {
+    const items: any[] = Array.isArray(data?.data) ? data.data : [];
+    return asVectors(
+      items.map((it) => it?.embedding),
+      "Offline"
+    );
+  },
+
+  usageTokens(data) {
+    return positiveNumber(data?.usage?.prompt_tokens);
+  }
+};
+
+export const BACKENDS: Record<BackendId, BackendProfile> = {
+  lmstudio: LM_STUDIO_BACKEND,
+  ollama: OLLAMA_BACKEND,
+  llamacpp: LLAMA_CPP_BACKEND,
+  tei: TEI_BACKEND,
+  offline: OFFLINE_BACKEND
+};
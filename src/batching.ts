@@ -0,0 +1,106 @@
+/**
+ * Grows or shrinks the batch size from measured request latency: full batches that come
+ * back well under the target grow it, slow ones shrink it, and overload responses
+ * (payload too large, timeouts) halve it.
+ */
+export class AdaptiveBatchSize {
+  size: number;
+
+  constructor(
+    initial: number,
+    private readonly min: number,
+    private readonly max: number,
+    private readonly targetLatencyMs: number
+  ) {
+    this.size = this.clamp(initial);
+  }
+
+  private clamp(n: number) {
+    return Math.max(this.min, Math.min(this.max, Math.round(n)));
+  }
+
+  recordSuccess(count: number, latencyMs: number) {
+    if (latencyMs > this.targetLatencyMs * 1.5) {
+      this.size = this.clamp(Math.floor(this.size * 0.7));
+    } else if (count >= this.size && latencyMs < this.targetLatencyMs * 0.5) {
+      this.size = this.clamp(Math.max(this.size + 1, this.size * 1.5));
+    }
+  }
+
+  recordOverload() {
+    this.size = this.clamp(Math.floor(this.size / 2));
+  }
+}
+
+/**
+ * Order for packing items into batches: longest first, so each batch holds items of
+ * similar length and the server doesn't pad short inputs to the longest one. Stable for
+ * equal lengths.
+ */
+export function lengthOrder(lengths: number[]) {
+  return lengths.map((_, i) => i).sort((a, b) => lengths[b] - lengths[a] || a - b);
+}
+
+/**
+ * How many items starting at `start` fit into one request of at most `maxItems` items
+ * and `budget` tokens (0 = no budget). Always at least one, so an item larger than the
+ * budget still goes out on its own.
+ */
+export function fitBatch(lengths: number[], start: number, maxItems: number, budget: number) {
+  const end = Math.min(lengths.length, start + Math.max(1, maxItems));
+  if (!(budget > 0)) return end - start;
+  let used = 0;
+  let i = start;
+  for (; i < end; i++) {
+    if (i > start && used + lengths[i] > budget) break;
+    used += lengths[i];
+  }
+  return i - start;
+}
+
+/**
+ * Run `run(start, end)` over `[0, total)` in consecutive ranges with up to `concurrency`
+ * ranges in flight. The range size is read from `size(start)` each time a range is taken,
+ * so it can change mid-dispatch and depend on what the range holds. When `run` throws and `split` accepts the error, the range
+ * is re-queued as two halves instead of failing the whole dispatch.
+ */
+export async function dispatchRanges(
+  total: number,
+  concurrency: number,
+  size: (start: number) => number,
+  run: (start: number, end: number) => Promise<void>,
+  split?: (err: unknown, start: number, end: number) => boolean
+) {
+  const requeued: [number, number][] = [];
+  let cursor = 0;
+  let failed = false;
+
+  const next = (): [number, number] | null => {
+    const retry = requeued.shift();
+    if (retry) return retry;
+    if (cursor >= total) return null;
+    const start = cursor;
+    cursor = Math.min(total, cursor + Math.max(1, size(start)));
+    return [start, cursor];
+  };
+
+  const worker = async () => {
+    for (let range = next(); range && !failed; range = next()) {
+      const [start, end] = range;
+      try {
+        await run(start, end);
+      } catch (err) {
+        if (end - start > 1 && split?.(err, start, end)) {
+          const mid = start + Math.ceil((end - start) / 2);
+          requeued.push([start, mid], [mid, end]);
+          continue;
+        }
+        failed = true;
+        throw err;
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, Math.ceil(total / Math.max(1, size(0)))));
+  await Promise.all(Array.from({ length: workers }, () => worker()));
+}
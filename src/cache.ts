@@ -0,0 +1,296 @@
+import { hashString } from "./hash";
+
+/** Where the cache file lives; the plugin wires this to the vault adapter. */
+export type CacheStorage = {
+  read(): Promise<string | null>;
+  write(data: string): Promise<void>;
+  append(data: string): Promise<void>;
+};
+
+type CacheEntry = {
+  model: string;
+  vec: string; // base64 Float32Array
+  tokens: number;
+};
+
+export type CacheStats = {
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  models: Record<string, number>;
+};
+
+/**
+ * The file is an append-only log, one JSON array per line after a `{"version":2}` header:
+ * `["s", key, model, vec, tokens]` sets an entry, `["d", key]` deletes one and
+ * `["p", model]` purges a model. Loading replays it; it is rewritten only when it has
+ * grown well past the live entries or after `clear()`. Version 1 was a single JSON object.
+ */
+const CACHE_FORMAT_VERSION = 2;
+type LogOp = ["s", string, string, string, number] | ["d", string] | ["p", string];
+
+// Writes wait for a pause in embedding, but never longer than the max wait.
+const SAVE_IDLE_MS = 5_000;
+const SAVE_MAX_WAIT_MS = 60_000;
+// Largest piece written at once; larger backlogs are written in steps so the UI keeps responding.
+const MAX_WRITE_CHARS = 1 << 20;
+
+function nextTick() {
+  return new Promise<void>((resolve) => window.setTimeout(resolve, 0));
+}
+
+export function encodeVector(vec: ArrayLike<number>) {
+  const bytes = new Uint8Array(Float32Array.from(vec as ArrayLike<number>).buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function decodeVector(encoded: string): number[] {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return Array.from(new Float32Array(bytes.buffer));
+}
+
+function entrySize(key: string, entry: CacheEntry) {
+  return key.length + entry.model.length + entry.vec.length + 16;
+}
+
+/**
+ * On-disk embedding cache keyed by (embedding key, request context, text hash).
+ * The Map's insertion order doubles as LRU order: reads move an entry to the end and
+ * eviction drops from the front.
+ */
+export class EmbeddingCache {
+  private entries = new Map<string, CacheEntry>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private saveTimer: number | null = null;
+  // Log lines not written yet, and when the oldest of them was added.
+  private pending: string[] = [];
+  private pendingSince = 0;
+  // The whole file must be rewritten (after clear(), a failed write or to compact the log).
+  private rewrite = false;
+  // Characters in the file, to decide when compacting is worth it.
+  private logChars = 0;
+  private writing: Promise<void> | null = null;
+
+  constructor(
+    private readonly storage: CacheStorage,
+    private readonly maxBytes: () => number
+  ) {}
+
+  /**
+   * `context` covers everything besides the text that shapes the vector: the prefix
+   * template and the truncation settings.
+   */
+  static keyFor(model: string, context: string, text: string) {
+    return `${model}\u0000${hashString(context)}\u0000${hashString(text)}${text.length.toString(16)}`;
+  }
+
+  async load() {
+    try {
+      const raw = await this.storage.read();
+      if (!raw) {
+        // Nothing to append to yet; the first save writes the header.
+        this.rewrite = true;
+        return;
+      }
+      this.entries.clear();
+      this.bytes = 0;
+      this.logChars = raw.length;
+      if (raw.startsWith("{") && !raw.startsWith(`{"version":${CACHE_FORMAT_VERSION}}`)) {
+        this.loadVersion1(JSON.parse(raw));
+        this.rewrite = true;
+      } else {
+        // A line cut short by a crash mid-append is skipped; everything before it is kept.
+        for (const line of raw.split("\n").slice(1)) {
+          if (!line) continue;
+          try {
+            this.replay(JSON.parse(line));
+          } catch {
+            this.rewrite = true;
+          }
+        }
+      }
+      this.evict(false);
+      if (this.logChars > 2 * this.bytes + MAX_WRITE_CHARS) this.rewrite = true;
+      if (this.rewrite) this.scheduleSave();
+    } catch (err) {
+      this.rewrite = true;
+      console.warn("[LM Studio Embeddings] failed to load embedding cache; starting empty", err);
+    }
+  }
+
+  private loadVersion1(parsed: any) {
+    if (parsed?.version !== 1 || !Array.isArray(parsed?.entries)) return;
+    for (const [key, model, vec, tokens] of parsed.entries) this.replay(["s", key, model, vec, tokens]);
+  }
+
+  private replay(op: LogOp) {
+    if (op[0] === "s") {
+      const [, key, model, vec, tokens] = op;
+      if (typeof key !== "string" || typeof vec !== "string") return;
+      this.remove(key);
+      const entry: CacheEntry = { model: String(model), vec, tokens: Number(tokens) || 0 };
+      this.entries.set(key, entry);
+      this.bytes += entrySize(key, entry);
+    } else if (op[0] === "d") {
+      this.remove(op[1]);
+    } else if (op[0] === "p") {
+      this.removeModel(op[1]);
+    }
+  }
+
+  private remove(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    this.entries.delete(key);
+    this.bytes -= entrySize(key, entry);
+    return true;
+  }
+
+  private removeModel(model: string) {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.model === model && this.remove(key)) removed++;
+    }
+    return removed;
+  }
+
+  private record(op: LogOp) {
+    if (!this.pending.length) this.pendingSince = Date.now();
+    this.pending.push(`${JSON.stringify(op)}\n`);
+    this.scheduleSave();
+  }
+
+  get(model: string, context: string, text: string): { vec: number[]; tokens: number } | null {
+    const key = EmbeddingCache.keyFor(model, context, text);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+    this.hits++;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { vec: decodeVector(entry.vec), tokens: entry.tokens };
+  }
+
+  set(model: string, context: string, text: string, vec: ArrayLike<number>, tokens: number) {
+    if (!vec?.length) return;
+    const key = EmbeddingCache.keyFor(model, context, text);
+    this.remove(key);
+    const entry: CacheEntry = { model, vec: encodeVector(vec), tokens };
+    this.entries.set(key, entry);
+    this.bytes += entrySize(key, entry);
+    this.record(["s", key, model, entry.vec, tokens]);
+    this.evict(true);
+  }
+
+  /** Drop every entry for one embedding key. Returns how many were removed. */
+  purgeModel(model: string) {
+    const removed = this.removeModel(model);
+    if (removed) this.record(["p", model]);
+    return removed;
+  }
+
+  clear() {
+    this.entries.clear();
+    this.bytes = 0;
+    this.hits = 0;
+    this.misses = 0;
+    this.pending = [];
+    this.rewrite = true;
+    this.scheduleSave();
+  }
+
+  getStats(): CacheStats {
+    const models: Record<string, number> = {};
+    for (const entry of this.entries.values()) models[entry.model] = (models[entry.model] ?? 0) + 1;
+    return { entries: this.entries.size, bytes: this.bytes, hits: this.hits, misses: this.misses, models };
+  }
+
+  private evict(log: boolean) {
+    const limit = this.maxBytes();
+    if (!(limit > 0)) return;
+    for (const key of this.entries.keys()) {
+      if (this.bytes <= limit) break;
+      this.remove(key);
+      if (log) this.record(["d", key]);
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer !== null) window.clearTimeout(this.saveTimer);
+    const since = this.pending.length ? this.pendingSince : Date.now();
+    const delay = Math.max(0, Math.min(SAVE_IDLE_MS, since + SAVE_MAX_WAIT_MS - Date.now()));
+    this.saveTimer = window.setTimeout(() => {
+      this.saveTimer = null;
+      this.flush().catch((err) => console.warn("[LM Studio Embeddings] failed to save embedding cache", err));
+    }, delay);
+  }
+
+  /** Write what changed since the last flush; also called on unload. */
+  async flush() {
+    if (this.saveTimer !== null) {
+      window.clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    while (this.writing) await this.writing;
+    if (!this.rewrite && !this.pending.length) return;
+    this.writing = this.writeOut().finally(() => (this.writing = null));
+    await this.writing;
+  }
+
+  private async writeOut() {
+    const rewrite = this.rewrite;
+    const lines = this.pending;
+    this.rewrite = false;
+    this.pending = [];
+    try {
+      if (rewrite) {
+        // Changes made while this runs are in `pending` and are appended afterwards.
+        const header = `{"version":${CACHE_FORMAT_VERSION}}\n`;
+        await this.storage.write(header);
+        this.logChars = header.length;
+        const keys = Array.from(this.entries.keys());
+        await this.appendInSteps(
+          (function* (entries) {
+            for (const key of keys) {
+              const e = entries.get(key);
+              if (e) yield `${JSON.stringify(["s", key, e.model, e.vec, e.tokens])}\n`;
+            }
+          })(this.entries)
+        );
+      } else {
+        await this.appendInSteps(lines);
+      }
+    } catch (err) {
+      // The file may now be missing lines; write it out whole next time.
+      this.rewrite = true;
+      throw err;
+    }
+  }
+
+  private async appendInSteps(lines: Iterable<string>) {
+    let chunk = "";
+    for (const line of lines) {
+      chunk += line;
+      if (chunk.length < MAX_WRITE_CHARS) continue;
+      await this.storage.append(chunk);
+      this.logChars += chunk.length;
+      chunk = "";
+      await nextTick();
+    }
+    if (chunk) {
+      await this.storage.append(chunk);
+      this.logChars += chunk.length;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { CompatModule, isRecord, registryAt, RegistryRef } from "./types";
+
+/**
+ * Unknown versions: every location any version has been seen to use, plus a scan of the
+ * env collections for something that looks like a providers registry.
+ */
+export const FALLBACK_COMPAT: CompatModule = {
+  id: "fallback",
+  range: "unknown",
+  matches: () => true,
+  providerRegistries: (env) => {
+    const refs = [
+      registryAt(env, "config.collections.embedding_models.providers"),
+      registryAt(env, "config.embedding_models.providers"),
+      registryAt(env, "embedding_models.providers"),
+      registryAt(env, "embedding_models.config.providers")
+    ];
+    const collections = env?.config?.collections;
+    if (isRecord(collections)) {
+      for (const [name, value] of Object.entries(collections)) {
+        const nested = (value as any)?.embedding_models?.providers;
+        const direct = (value as any)?.providers;
+        const registry = isRecord(nested) ? nested : isRecord(direct) ? direct : null;
+        const path = `env.config.collections.${name}.${isRecord(nested) ? "embedding_models.providers" : "providers"}`;
+        if (registry) refs.push({ path, registry } satisfies RegistryRef);
+      }
+    }
+    return refs;
+  },
+  adapterRegistries: (env) => [
+    registryAt(env, "embedding_models.adapters"),
+    registryAt(env, "embedding_models.adapter_classes"),
+    registryAt(env, "embedding_models.adapterClasses"),
+    registryAt(env, "embedding_models.adapter_registry"),
+    registryAt(env, "embedding_models.adapterRegistry"),
+    registryAt(env, "embedding_models.embedding_adapters"),
+    registryAt(env, "embedding_models.embeddingAdapters"),
+    registryAt(env, "config.modules.smart_embed_model.adapters"),
+    registryAt(env, "config.embedding_models.adapters"),
+    registryAt(env, "smart_sources.embed_model.adapters"),
+    registryAt(env, "smart_blocks.embed_model.adapters"),
+    registryAt(env, "config.modules.smart_embed_model.class.adapters")
+  ]
+};
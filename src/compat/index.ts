@@ -0,0 +1,28 @@
+import { FALLBACK_COMPAT } from "./fallback";
+import { CompatModule } from "./types";
+import { SMART_CONNECTIONS_V2 } from "./v2";
+import { SMART_CONNECTIONS_V3 } from "./v3";
+
+export { FALLBACK_COMPAT } from "./fallback";
+export type { CompatModule, RegistryRef } from "./types";
+export { isRecord } from "./types";
+
+const COMPAT_MODULES: CompatModule[] = [SMART_CONNECTIONS_V3, SMART_CONNECTIONS_V2];
+
+export function parseVersion(version: unknown): [number, number, number] | null {
+  const match = /^v?(\d+)\.(\d+)(?:\.(\d+))?/.exec(String(version ?? "").trim());
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)] : null;
+}
+
+/** The installed Smart Connections version, from its manifest. */
+export function smartConnectionsVersion(sc: any): string | null {
+  const version = sc?.manifest?.version;
+  return typeof version === "string" && version.trim() ? version.trim() : null;
+}
+
+/** The module for the installed version; unknown or unparseable versions get the fallback. */
+export function selectCompat(version: string | null): CompatModule {
+  const parsed = parseVersion(version);
+  if (!parsed) return FALLBACK_COMPAT;
+  return COMPAT_MODULES.find((m) => m.matches(parsed)) ?? FALLBACK_COMPAT;
+}
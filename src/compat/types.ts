@@ -0,0 +1,36 @@
+/** A registry location inside the Smart Connections env, named by its path for reports. */
+export type RegistryRef = {
+  path: string;
+  registry: Record<string, any> | null;
+};
+
+/**
+ * Where one range of Smart Connections versions keeps its embedding provider and
+ * adapter registries.
+ */
+export type CompatModule = {
+  id: string;
+  /** Version range, for logs and diagnostics. */
+  range: string;
+  matches(version: [number, number, number]): boolean;
+  /** Provider registries in order of preference; the first one found is the main one. */
+  providerRegistries(env: any): RegistryRef[];
+  adapterRegistries(env: any): RegistryRef[];
+};
+
+export function isRecord(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Resolve a dotted path under `env`; anything that isn't a plain object counts as missing. */
+export function registryAt(env: any, path: string): RegistryRef {
+  let value = env;
+  for (const part of path.split(".")) {
+    try {
+      value = value?.[part];
+    } catch {
+      value = undefined;
+    }
+  }
+  return { path: `env.${path}`, registry: isRecord(value) ? value : null };
+}
@@ -0,0 +1,16 @@
+import { CompatModule, registryAt } from "./types";
+
+/** Smart Connections 2.x: providers in the env config, adapters on the smart_embed_model module. */
+export const SMART_CONNECTIONS_V2: CompatModule = {
+  id: "v2",
+  range: "2.x",
+  matches: ([major]) => major === 2,
+  providerRegistries: (env) => [registryAt(env, "config.embedding_models.providers")],
+  adapterRegistries: (env) => [
+    registryAt(env, "config.modules.smart_embed_model.adapters"),
+    registryAt(env, "config.modules.smart_embed_model.class.adapters"),
+    registryAt(env, "config.embedding_models.adapters"),
+    registryAt(env, "smart_sources.embed_model.adapters"),
+    registryAt(env, "smart_blocks.embed_model.adapters")
+  ]
+};
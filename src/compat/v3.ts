@@ -0,0 +1,19 @@
+import { CompatModule, registryAt } from "./types";
+
+/** Smart Connections 3.x and later: embedding models are an env collection of their own. */
+export const SMART_CONNECTIONS_V3: CompatModule = {
+  id: "v3",
+  range: ">=3.0",
+  matches: ([major]) => major >= 3,
+  providerRegistries: (env) => [
+    registryAt(env, "config.collections.embedding_models.providers"),
+    registryAt(env, "embedding_models.providers"),
+    registryAt(env, "embedding_models.config.providers")
+  ],
+  adapterRegistries: (env) => [
+    registryAt(env, "embedding_models.adapters"),
+    registryAt(env, "config.modules.smart_embed_model.class.adapters"),
+    registryAt(env, "smart_sources.embed_model.adapters"),
+    registryAt(env, "smart_blocks.embed_model.adapters")
+  ]
+};
@@ -0,0 +1,117 @@
+/**
+ * Parses response bodies off the UI thread. A batch of embeddings is megabytes of JSON
+ * number text (or base64); parsing that in Obsidian's renderer makes the editor stutter.
+ */
+
+// Below this size a worker round trip costs more than it saves.
+const WORKER_MIN_BYTES = 64 * 1024;
+
+/**
+ * Worker body. Runs in its own global scope, so it must not reference anything outside
+ * this function. Base64 embeddings in the OpenAI shape (`data[].embedding`) are decoded
+ * here into plain number arrays, so the main thread gets them ready to use.
+ */
+function decoderWorker() {
+  function decodeBase64(value: string) {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Float32Array(bytes.buffer, 0, bytes.byteLength >> 2);
+  }
+
+  function toVector(value: unknown) {
+    return typeof value === "string" ? Array.from(decodeBase64(value)) : value;
+  }
+
+  const scope = self as any;
+  scope.onmessage = (event: MessageEvent) => {
+    const { id, buffer } = event.data;
+    try {
+      const text = new TextDecoder().decode(buffer);
+      const value = text ? JSON.parse(text) : null;
+      if (Array.isArray(value?.data)) {
+        for (const item of value.data) {
+          if (item && "embedding" in item) item.embedding = toVector(item.embedding);
+        }
+      }
+      scope.postMessage({ id, value });
+    } catch (err: any) {
+      scope.postMessage({ id, error: err?.message ?? String(err) });
+    }
+  };
+}
+
+type Pending = { resolve: (value: any) => void; reject: (err: Error) => void };
+
+let worker: Worker | null = null;
+let workerUrl: string | null = null;
+let workerFailed = false;
+let nextId = 0;
+const pending = new Map<number, Pending>();
+
+function getWorker(): Worker | null {
+  if (worker || workerFailed) return worker;
+  try {
+    const blob = new Blob([`(${decoderWorker.toString()})()`], { type: "text/javascript" });
+    workerUrl = URL.createObjectURL(blob);
+    worker = new Worker(workerUrl);
+    worker.onmessage = (event: MessageEvent) => {
+      const { id, value, error } = event.data;
+      const entry = pending.get(id);
+      if (!entry) return;
+      pending.delete(id);
+      if (error !== undefined) entry.reject(new SyntaxError(error));
+      else entry.resolve(value);
+    };
+    worker.onerror = (event) => {
+      console.warn("[LM Studio Embeddings] decoder worker failed; parsing on the main thread", event.message);
+      disposeDecoder();
+      workerFailed = true;
+    };
+  } catch (err) {
+    console.warn("[LM Studio Embeddings] decoder worker unavailable; parsing on the main thread", err);
+    workerFailed = true;
+    worker = null;
+  }
+  return worker;
+}
+
+function decodeOnMainThread(buffer: ArrayBuffer) {
+  const text = new TextDecoder().decode(buffer);
+  return text ? JSON.parse(text) : null;
+}
+
+/** Parse a JSON response body; large bodies are parsed (and their embeddings decoded) in a worker. */
+export function decodeJson(buffer: ArrayBuffer): Promise<any> {
+  const w = buffer.byteLength >= WORKER_MIN_BYTES ? getWorker() : null;
+  if (!w) {
+    try {
+      return Promise.resolve(decodeOnMainThread(buffer));
+    } catch (err) {
+      return Promise.reject(err);
+    }
+  }
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    w.postMessage({ id, buffer }, [buffer]);
+  });
+}
+
+/** Decode a base64 embedding (little-endian float32) on the calling thread. */
+export function decodeBase64Vector(value: string): Float32Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Float32Array(bytes.buffer, 0, bytes.byteLength >> 2);
+}
+
+/** Stop the worker; requests still waiting on it fail. */
+export function disposeDecoder() {
+  worker?.terminate();
+  worker = null;
+  if (workerUrl) URL.revokeObjectURL(workerUrl);
+  workerUrl = null;
+  for (const entry of pending.values()) entry.reject(new Error("LM Studio: response decoder stopped"));
+  pending.clear();
+}
@@ -0,0 +1,104 @@
+import { BackendId, BACKENDS } from "./backends";
+import { cachedModelsFor, checkEndpoints, configuredBackends, listModels, sampleEmbedding } from "./lmstudio";
+
+export type DiagnosticStatus = "ok" | "warn" | "fail";
+
+export type DiagnosticCheck = {
+  name: string;
+  status: DiagnosticStatus;
+  detail: string;
+};
+
+/** The model Smart Connections currently embeds with, if it is one of ours. */
+export type SelectedModel = { backend: BackendId; modelId: string };
+
+const STATUS_MARK: Record<DiagnosticStatus, string> = { ok: "✓", warn: "!", fail: "✗" };
+
+function errorMessage(err: unknown) {
+  return (err as any)?.message ?? String(err);
+}
+
+async function endpointChecks(): Promise<DiagnosticCheck[]> {
+  const checks: DiagnosticCheck[] = [];
+  for (const endpoint of await checkEndpoints()) {
+    const name = `${BACKENDS[endpoint.backend].name} ${endpoint.url}`;
+    if (!endpoint.reachable) {
+      checks.push({ name: `${name}: reachable`, status: "fail", detail: endpoint.error ?? "no response" });
+      continue;
+    }
+    checks.push({ name: `${name}: reachable`, status: "ok", detail: `answered in ${endpoint.latencyMs} ms` });
+    if (endpoint.authorized === false) {
+      checks.push({ name: `${name}: authentication`, status: "fail", detail: endpoint.error ?? "rejected" });
+      continue;
+    }
+    checks.push({ name: `${name}: authentication`, status: "ok", detail: "accepted" });
+    if (endpoint.error) {
+      checks.push({ name: `${name}: models`, status: "fail", detail: endpoint.error });
+    } else {
+      const count = endpoint.models?.length ?? 0;
+      checks.push({ name: `${name}: models`, status: count ? "ok" : "warn", detail: `${count} models listed` });
+    }
+  }
+  return checks;
+}
+
+async function modelChecks(selected: SelectedModel | null): Promise<DiagnosticCheck[]> {
+  const checks: DiagnosticCheck[] = [];
+  for (const backend of configuredBackends()) {
+    const name = BACKENDS[backend].name;
+    try {
+      const ids = Object.keys(await listModels(true, backend));
+      checks.push({
+        name: `${name}: embedding models`,
+        status: ids.length ? "ok" : "warn",
+        detail: ids.length ? ids.join(", ") : "none found (check the allow/deny patterns)"
+      });
+    } catch (err) {
+      checks.push({ name: `${name}: embedding models`, status: "fail", detail: errorMessage(err) });
+    }
+  }
+
+  if (!selected) {
+    checks.push({
+      name: "Selected model",
+      status: "warn",
+      detail: "Smart Connections is not using one of this plugin's providers"
+    });
+    return checks;
+  }
+
+  const { backend, modelId } = selected;
+  const model = cachedModelsFor(backend)[modelId];
+  checks.push({
+    name: "Selected model",
+    status: model ? "ok" : "fail",
+    detail: `${BACKENDS[backend].name} / ${modelId}${model ? "" : " (not listed by any endpoint)"}`
+  });
+  checks.push({
+    name: "Selected model loaded",
+    status: model?.loaded === false ? "warn" : "ok",
+    detail: model?.loaded === undefined ? "unknown (server doesn't report load state)" : model.loaded ? "yes" : "no"
+  });
+  try {
+    const sample = await sampleEmbedding(backend, modelId);
+    checks.push({ name: "Sample embedding", status: "ok", detail: `${sample.dims} dims in ${sample.latencyMs} ms` });
+  } catch (err) {
+    checks.push({ name: "Sample embedding", status: "fail", detail: errorMessage(err) });
+  }
+  return checks;
+}
+
+/**
+ * Check the servers, the model and the sample embedding; `registration` holds the checks
+ * of the Smart Connections side, which only the plugin can inspect.
+ */
+export async function runDiagnostics(selected: SelectedModel | null, registration: DiagnosticCheck[]) {
+  const checks = [...(await endpointChecks()), ...(await modelChecks(selected)), ...registration];
+  return { checks, text: formatReport(checks) };
+}
+
+export function formatReport(checks: DiagnosticCheck[]) {
+  const lines = [`LM Studio Embeddings diagnostics (${new Date().toISOString()})`, ""];
+  for (const check of checks) lines.push(`${STATUS_MARK[check.status]} ${check.name}: ${check.detail}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,163 @@
+import { Notice } from "obsidian";
+import type { BackendId } from "./backends";
+import { CircuitBreaker } from "./retry";
+
+export type EndpointConfig = {
+  /** Server type; endpoints saved before backends existed are LM Studio. */
+  backend?: BackendId;
+  url: string;
+  apiKey: string;
+  /** Relative share of requests; only used for balancing, never to exclude an endpoint. */
+  weight: number;
+  enabled: boolean;
+};
+
+/** Optional embedding request parameters, negotiated per endpoint. */
+export type RequestFeature = "base64" | "dimensions";
+
+export type LoadBalancing = "round_robin" | "least_latency";
+
+export type EndpointHealth = {
+  backend: BackendId;
+  url: string;
+  enabled: boolean;
+  /** null until the endpoint has been contacted. */
+  healthy: boolean | null;
+  latencyMs: number | null;
+  lastError: string | null;
+  paused: boolean;
+  models: string[] | null;
+};
+
+export function normalizeBaseUrl(url: string) {
+  return String(url).trim().replace(/\/$/, "");
+}
+
+/** One configured server, with its own health, latency and circuit breaker. */
+export class Endpoint {
+  readonly url: string;
+  config: EndpointConfig;
+  readonly breaker: CircuitBreaker;
+  healthy: boolean | null = null;
+  latencyMs: number | null = null;
+  lastError: string | null = null;
+  /** Model ids served here, from the last model listing; null when unknown. */
+  models: Set<string> | null = null;
+  /** null = not probed yet. */
+  tokenizeSupported: boolean | null = null;
+  /** Optional request parameters the server accepts or rejects; missing = not tried yet. */
+  accepts: Partial<Record<RequestFeature, boolean>> = {};
+  // Smooth weighted round-robin state.
+  current = 0;
+
+  constructor(config: EndpointConfig, breakerOptions: () => { threshold: number; cooldownMs: number }) {
+    this.url = normalizeBaseUrl(config.url);
+    this.config = config;
+    this.breaker = new CircuitBreaker(
+      breakerOptions,
+      (retryAt) => {
+        const seconds = Math.ceil((retryAt - Date.now()) / 1000);
+        new Notice(`LM Studio Embeddings: ${this.url} is not responding. Pausing requests to it for ${seconds}s.`);
+      },
+      () => console.log("[LM Studio Embeddings] server reachable again; resuming requests", this.url)
+    );
+  }
+
+  get weight() {
+    const w = Number(this.config.weight);
+    return Number.isFinite(w) && w > 0 ? w : 1;
+  }
+
+  recordSuccess(latencyMs: number) {
+    this.healthy = true;
+    this.lastError = null;
+    this.latencyMs = this.latencyMs === null ? latencyMs : this.latencyMs * 0.7 + latencyMs * 0.3;
+  }
+
+  recordFailure(error: string) {
+    this.healthy = false;
+    this.lastError = error;
+  }
+
+  serves(modelId: string | null) {
+    return !modelId || !this.models || this.models.has(modelId);
+  }
+}
+
+/**
+ * The configured endpoints. Picks one per request among the enabled endpoints that are
+ * not paused by their circuit breaker and (when known) serve the requested model.
+ */
+export class EndpointPool {
+  private endpoints: Endpoint[] = [];
+  strategy: LoadBalancing = "round_robin";
+
+  constructor(private readonly breakerOptions: () => { threshold: number; cooldownMs: number }) {}
+
+  /** Replace the configuration, keeping health state for URLs that are still present. */
+  setConfigs(configs: EndpointConfig[]) {
+    const previous = new Map(this.endpoints.map((e) => [e.url, e]));
+    this.endpoints = configs
+      .filter((c) => normalizeBaseUrl(c.url))
+      .map((c) => {
+        const existing = previous.get(normalizeBaseUrl(c.url));
+        if (existing) {
+          existing.config = c;
+          return existing;
+        }
+        return new Endpoint(c, this.breakerOptions);
+      });
+  }
+
+  get all() {
+    return this.endpoints.slice();
+  }
+
+  get enabled() {
+    return this.endpoints.filter((e) => e.config.enabled);
+  }
+
+  candidates(modelId: string | null, exclude: Set<Endpoint> = new Set()) {
+    return this.enabled.filter((e) => !exclude.has(e) && e.breaker.available && e.serves(modelId));
+  }
+
+  pick(modelId: string | null, exclude: Set<Endpoint> = new Set()): Endpoint | null {
+    const candidates = this.candidates(modelId, exclude);
+    if (candidates.length <= 1) return candidates[0] ?? null;
+
+    if (this.strategy === "least_latency") {
+      // Unmeasured endpoints count as fastest so each one gets tried.
+      const score = (e: Endpoint) => (e.latencyMs ?? 0) / e.weight;
+      return candidates.reduce((best, e) => (score(e) < score(best) ? e : best));
+    }
+
+    let total = 0;
+    let best = candidates[0];
+    for (const e of candidates) {
+      e.current += e.weight;
+      total += e.weight;
+      if (e.current > best.current) best = e;
+    }
+    best.current -= total;
+    return best;
+  }
+
+  /** Earliest time a paused endpoint accepts requests again, or 0 if none is paused. */
+  soonestRetryAt() {
+    const times = this.enabled.map((e) => e.breaker.retryAt).filter((t) => t > 0);
+    return times.length ? Math.min(...times) : 0;
+  }
+
+  health(): EndpointHealth[] {
+    return this.endpoints.map((e) => ({
+      backend: e.config.backend ?? "lmstudio",
+      url: e.url,
+      enabled: e.config.enabled,
+      healthy: e.healthy,
+      latencyMs: e.latencyMs === null ? null : Math.round(e.latencyMs),
+      lastError: e.lastError,
+      paused: e.breaker.isOpen && !e.breaker.available,
+      models: e.models ? Array.from(e.models) : null
+    }));
+  }
+}
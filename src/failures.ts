@@ -0,0 +1,53 @@
+/**
+ * What to do with inputs that could not be embedded.
+ * - `item_errors`: return `{ vec: null, error }` for just those items, so Smart Connections
+ *   leaves them unembedded and picks them up again later.
+ * - `throw`: fail the whole `embed_batch` call; Smart Connections keeps the batch queued.
+ * - `pad`: legacy behavior, a zero vector in place of the missing embedding.
+ */
+export type FailureMode = "item_errors" | "throw" | "pad";
+
+export type EmbeddingFailure = {
+  key: string;
+  model: string;
+  error: string;
+  at: number;
+};
+
+const failures = new Map<string, EmbeddingFailure>();
+const listeners = new Set<() => void>();
+
+function notify() {
+  for (const listener of listeners) listener();
+}
+
+/** Source or block key of a Smart Connections item, if the input was one. */
+export function itemKey(item: any): string | null {
+  if (!item || typeof item !== "object") return null;
+  const key = item.key ?? item.data?.key ?? item.path ?? null;
+  return typeof key === "string" && key ? key : null;
+}
+
+export function recordFailure(key: string, model: string, error: string) {
+  failures.set(key, { key, model, error, at: Date.now() });
+  notify();
+}
+
+export function clearFailure(key: string) {
+  if (failures.delete(key)) notify();
+}
+
+export function clearFailures(keys?: string[]) {
+  if (keys) for (const key of keys) failures.delete(key);
+  else failures.clear();
+  notify();
+}
+
+export function listFailures(): EmbeddingFailure[] {
+  return Array.from(failures.values()).sort((a, b) => b.at - a.at);
+}
+
+export function onFailuresChanged(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
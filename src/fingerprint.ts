@@ -0,0 +1,45 @@
+import { shortHash } from "./hash";
+import { norm } from "./postprocess";
+
+/** Embedded when the adapter loads; any change in its vector means a different model. */
+export const CANARY_TEXT = "The quick brown fox jumps over the lazy dog. 0123456789";
+
+// Components kept for comparison. Enough to tell quantizations apart, small enough to
+// store in Smart Connections' model data.
+const SAMPLE_SIZE = 32;
+// Same weights give (near) identical vectors; a different file or quantization doesn't.
+const MIN_SIMILARITY = 0.999;
+
+export type ModelFingerprint = {
+  model: string;
+  dims: number;
+  /** Short hash of the rounded sample, for display. */
+  digest: string;
+  sample: number[];
+  at: number;
+};
+
+export function fingerprintOf(model: string, vec: number[]): ModelFingerprint {
+  const n = norm(vec) || 1;
+  const sample = vec.slice(0, SAMPLE_SIZE).map((v) => Math.round((v / n) * 1e5) / 1e5);
+  const digest = shortHash(`${vec.length}:${sample.map((v) => v.toFixed(3)).join(",")}`);
+  return { model, dims: vec.length, digest, sample, at: Date.now() };
+}
+
+export function isFingerprint(value: any): value is ModelFingerprint {
+  return (
+    typeof value?.model === "string" &&
+    Number.isFinite(value?.dims) &&
+    typeof value?.digest === "string" &&
+    Array.isArray(value?.sample)
+  );
+}
+
+/** Whether two fingerprints come from the same model weights. */
+export function sameModel(a: ModelFingerprint, b: ModelFingerprint) {
+  if (a.dims !== b.dims || a.sample.length !== b.sample.length) return false;
+  let dot = 0;
+  for (let i = 0; i < a.sample.length; i++) dot += a.sample[i] * b.sample[i];
+  const denom = norm(a.sample) * norm(b.sample);
+  return denom > 0 && dot / denom >= MIN_SIMILARITY;
+}
@@ -0,0 +1,22 @@
+/**
+ * Fast non-cryptographic 53-bit string hash (cyrb53), as a fixed-width hex string.
+ * Good enough for cache keys and key suffixes; not for anything security related.
+ */
+export function hashString(text: string, seed = 0) {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const n = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return n.toString(16).padStart(14, "0");
+}
+
+/** Short hash for embedding-key suffixes. */
+export function shortHash(text: string) {
+  return hashString(text).slice(-8);
+}
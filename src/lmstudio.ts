@@ -1,49 +1,598 @@
+import { Notice } from "obsidian";
+import { beginEmbedding } from "./activity";
+import { BackendId, BACKENDS, BackendProfile, DiscoveredModel } from "./backends";
+import { AdaptiveBatchSize, dispatchRanges, fitBatch, lengthOrder } from "./batching";
+import type { EmbeddingCache } from "./cache";
+import { decodeJson } from "./decoder";
+import { Endpoint, EndpointConfig, EndpointPool, LoadBalancing, RequestFeature } from "./endpoints";
+import { clearFailure, FailureMode, itemKey, recordFailure } from "./failures";
+import { CANARY_TEXT, fingerprintOf, isFingerprint, ModelFingerprint, sameModel } from "./fingerprint";
+import { offlineFetch } from "./offline";
+import { NO_POST_PROCESSING, PostProcessing, postProcessKeySuffix, postProcessVector } from "./postprocess";
+import { applyTemplate, EmbedKind, PrefixTemplates, prefixKeySuffix, resolvePrefixTemplates, templateOverhead } from "./prefixes";
+import { DEFAULT_PREPROCESSING, PreprocessingOptions, preprocessKeySuffix, preprocessText } from "./preprocess";
+import { logRequest } from "./requestlog";
+import {
+  backoffDelay,
+  CircuitOpenError,
+  EmbeddingCancelledError,
+  isOverload,
+  isRetryable,
+  LmStudioHttpError,
+  parseRetryAfter,
+  sleep
+} from "./retry";
+import { calibrateTokenEstimate, estimateTokens } from "./tokens";
+import { planSegments, poolVectors, PoolingMode, Segment, TruncationStrategy } from "./truncation";
+
+/** Settings a user can override for one model id. Unset fields use the global settings. */
+export type ModelOverride = {
+  batchSize?: number;
+  /** Token limit per input; takes precedence over the limit the server reports. */
+  maxTokens?: number;
+  requestTimeoutMs?: number;
+  queryTemplate?: string;
+  documentTemplate?: string;
+  /** L2-normalize vectors. */
+  normalize?: boolean;
+  /** Matryoshka output dimensions. */
+  dimensions?: number;
+  /** Decimal places to round vector components to. */
+  precision?: number;
+  /**
+   * Set when the model changed under the same id and its new vectors are kept apart:
+   * the fingerprint digest of the new model, added to the embedding key.
+   */
+  keyVariant?: string;
+};
+
 export type LmStudioSettings = {
-  baseUrl: string;
-  apiKey: string;
+  endpoints: EndpointConfig[];
+  loadBalancing: LoadBalancing;
   requestTimeoutMs: number;
   maxTokens: number;
   batchSize: number;
+  modelAllowPattern: string;
+  modelDenyPattern: string;
+  truncationStrategy: TruncationStrategy;
+  chunkOverlapTokens: number;
+  poolingMode: PoolingMode;
+  prefixPresets: boolean;
+  /** Keyed by `modelOverrideKey`. */
+  modelOverrides: Record<string, ModelOverride>;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  circuitBreakerThreshold: number;
+  circuitBreakerCooldownMs: number;
+  cacheEnabled: boolean;
+  concurrency: number;
+  adaptiveBatching: boolean;
+  adaptiveTargetLatencyMs: number;
+  maxBatchSize: number;
+  /** Token budget per embedding request; 0 = only the batch size limits it. */
+  maxBatchTokens: number;
+  failureMode: FailureMode;
+  /** Load the selected model when the server reports it as not loaded. */
+  autoLoadModel: boolean;
+  modelLoadTimeoutMs: number;
+  /** Send one short embedding when the adapter loads, so the first real batch isn't slow. */
+  warmUpModel: boolean;
+  /** Ping the model this often while the user is active; 0 = off. */
+  keepAliveMinutes: number;
+  /** Embed a canary text on load and warn when the model's vectors changed. */
+  fingerprintModels: boolean;
+  /** Markdown cleanup applied to every input before it is embedded. */
+  preprocessing: PreprocessingOptions;
 };
 
 let settings: LmStudioSettings = {
-  baseUrl: "http://127.0.0.1:1234",
-  apiKey: "",
+  endpoints: [{ url: "http://127.0.0.1:1234", apiKey: "", weight: 1, enabled: true }],
+  loadBalancing: "round_robin",
   requestTimeoutMs: 120_000,
   maxTokens: 512,
-  batchSize: 16
+  batchSize: 16,
+  modelAllowPattern: "",
+  modelDenyPattern: "",
+  truncationStrategy: "head",
+  chunkOverlapTokens: 64,
+  poolingMode: "weighted",
+  prefixPresets: false,
+  modelOverrides: {},
+  maxRetries: 3,
+  retryBaseDelayMs: 500,
+  circuitBreakerThreshold: 5,
+  circuitBreakerCooldownMs: 30_000,
+  cacheEnabled: true,
+  concurrency: 2,
+  adaptiveBatching: false,
+  adaptiveTargetLatencyMs: 5_000,
+  maxBatchSize: 128,
+  maxBatchTokens: 8192,
+  failureMode: "item_errors",
+  autoLoadModel: false,
+  modelLoadTimeoutMs: 300_000,
+  warmUpModel: true,
+  keepAliveMinutes: 0,
+  fingerprintModels: true,
+  preprocessing: DEFAULT_PREPROCESSING
+};
+
+let embeddingCache: EmbeddingCache | null = null;
+
+export type ModelChange = {
+  backend: BackendId;
+  modelId: string;
+  stored: ModelFingerprint;
+  current: ModelFingerprint;
+  /** Store the current fingerprint, so the change isn't reported again. */
+  accept(): void;
 };
 
+let modelChangeHandler: ((change: ModelChange) => void) | null = null;
+
+/** The plugin decides what to do about a changed model; without a handler it is only logged. */
+export function setModelChangeHandler(handler: ((change: ModelChange) => void) | null) {
+  modelChangeHandler = handler;
+}
+
+/** The plugin owns the cache (it knows where to store it); the adapter only uses it. */
+export function setEmbeddingCache(cache: EmbeddingCache | null) {
+  embeddingCache = cache;
+}
+
+// One endpoint pool per backend; each endpoint belongs to the backend it is configured for.
+const pools = Object.fromEntries(
+  (Object.keys(BACKENDS) as BackendId[]).map((id) => [
+    id,
+    new EndpointPool(() => ({
+      threshold: settings.circuitBreakerThreshold,
+      cooldownMs: settings.circuitBreakerCooldownMs
+    }))
+  ])
+) as Record<BackendId, EndpointPool>;
+
+function applyEndpointConfigs() {
+  for (const [id, pool] of Object.entries(pools) as [BackendId, EndpointPool][]) {
+    pool.setConfigs(settings.endpoints.filter((e) => (e.backend ?? "lmstudio") === id));
+    pool.strategy = settings.loadBalancing;
+  }
+}
+applyEndpointConfigs();
+
+/** Backends with at least one enabled endpoint. LM Studio always counts as configured. */
+export function configuredBackends(): BackendId[] {
+  return (Object.keys(pools) as BackendId[]).filter((id) => id === "lmstudio" || pools[id].enabled.length > 0);
+}
+
 export function setLmStudioSettings(next: Partial<LmStudioSettings>) {
+  const filterChanged =
+    (next.modelAllowPattern !== undefined && next.modelAllowPattern !== settings.modelAllowPattern) ||
+    (next.modelDenyPattern !== undefined && next.modelDenyPattern !== settings.modelDenyPattern);
   settings = { ...settings, ...next };
+  applyEndpointConfigs();
+  if (next.endpoints || filterChanged) {
+    for (const cache of Object.values(modelCaches)) cache.fetchedAt = 0;
+  }
+}
+
+export function getEndpointHealth() {
+  return Object.values(pools).flatMap((pool) => pool.health());
+}
+
+// "url\u0000model" pairs already reported, so each gap is only announced once.
+const reportedMissingModels = new Set<string>();
+
+/** Warn about enabled endpoints whose last model listing didn't include `modelId`. */
+function reportEndpointsMissingModel(backend: BackendId, modelId: string) {
+  const pool = pools[backend];
+  const missing = pool.enabled.filter((e) => e.models && !e.models.has(modelId));
+  const fresh = missing.filter((e) => !reportedMissingModels.has(`${e.url}\u0000${modelId}`));
+  if (!fresh.length) return;
+  for (const e of fresh) reportedMissingModels.add(`${e.url}\u0000${modelId}`);
+  const urls = fresh.map((e) => e.url).join(", ");
+  console.warn("[LM Studio Embeddings] endpoints without model", modelId, urls);
+  const servedElsewhere = pool.enabled.some((e) => !missing.includes(e));
+  new Notice(
+    servedElsewhere
+      ? `LM Studio Embeddings: ${urls} does not serve ${modelId}; requests for it go to the other endpoints.`
+      : `LM Studio Embeddings: no ${BACKENDS[backend].name} endpoint serves ${modelId}. Download it or pick another model.`
+  );
+}
+
+/**
+ * Overrides are kept per backend and model: the same model id served by two backends
+ * (e.g. `nomic-embed-text` in LM Studio and Ollama) can need different settings.
+ */
+export function modelOverrideKey(backend: BackendId, modelId: string) {
+  return `${backend}:${modelId}`;
+}
+
+function overrideFor(backend: BackendId, modelId: string): ModelOverride | undefined {
+  return settings.modelOverrides?.[modelOverrideKey(backend, modelId)];
+}
+
+export function prefixTemplatesFor(backend: BackendId, modelId: string): PrefixTemplates {
+  const override = overrideFor(backend, modelId);
+  return resolvePrefixTemplates(
+    modelId,
+    { query: override?.queryTemplate, document: override?.documentTemplate },
+    settings.prefixPresets
+  );
+}
+
+/** The settings in effect for one model: its overrides on top of the global settings. */
+export type ModelSettings = {
+  batchSize: number;
+  maxTokens: number;
+  requestTimeoutMs: number;
+  prefixTemplates: PrefixTemplates;
+  postProcessing: PostProcessing;
+};
+
+function positiveInt(value: unknown) {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/**
+ * Resolve the effective settings for a model id. `reported` holds what Smart Connections
+ * or the server know about the model (its stored batch size, its context length); they
+ * win over the global settings but not over the user's per-model overrides.
+ */
+export function resolveModelSettings(
+  backend: BackendId,
+  modelId: string,
+  reported: { batchSize?: unknown; maxTokens?: unknown } = {}
+): ModelSettings {
+  const override = overrideFor(backend, modelId);
+  return {
+    batchSize: positiveInt(override?.batchSize) ?? positiveInt(reported.batchSize) ?? settings.batchSize,
+    maxTokens: positiveInt(override?.maxTokens) ?? positiveInt(reported.maxTokens) ?? settings.maxTokens,
+    requestTimeoutMs: positiveInt(override?.requestTimeoutMs) ?? settings.requestTimeoutMs,
+    prefixTemplates: prefixTemplatesFor(backend, modelId),
+    postProcessing: postProcessingFor(backend, modelId)
+  };
+}
+
+export function postProcessingFor(backend: BackendId, modelId: string): PostProcessing {
+  const override = overrideFor(backend, modelId);
+  if (!override) return NO_POST_PROCESSING;
+  const dims = Number(override.dimensions);
+  const precision = Number(override.precision);
+  return {
+    normalize: override.normalize === true,
+    dimensions: Number.isInteger(dims) && dims > 0 ? dims : null,
+    precision: Number.isInteger(precision) && precision >= 0 ? precision : null
+  };
+}
+
+/**
+ * The key Smart Connections stores vectors under (after the adapter prefix). It is the
+ * plain model id unless something that changes the vectors is configured, in which case
+ * a short variant suffix is appended so differently produced vectors are never mixed.
+ */
+export function embeddingKeyFor(backend: BackendId, modelId: string) {
+  const keyVariant = overrideFor(backend, modelId)?.keyVariant;
+  const variants = [
+    prefixKeySuffix(prefixTemplatesFor(backend, modelId)),
+    preprocessKeySuffix(settings.preprocessing),
+    postProcessKeySuffix(postProcessingFor(backend, modelId)),
+    keyVariant ? `f-${keyVariant}` : ""
+  ].filter(Boolean);
+  return variants.length ? `${modelId}~${variants.join("~")}` : modelId;
+}
+
+function errorMessage(err: unknown) {
+  return (err as any)?.message ?? String(err);
 }
 
-function normalizeBaseUrl(url: string) {
-  return String(url).trim().replace(/\/$/, "");
+// Aborted by `cancelEmbedding`, then replaced so later work isn't affected.
+let cancelController = new AbortController();
+
+/**
+ * Abort every request in flight and every embedding call started before now. Calls that
+ * start afterwards run normally.
+ */
+export function cancelEmbedding(reason = "cancelled") {
+  const controller = cancelController;
+  cancelController = new AbortController();
+  controller.abort(new EmbeddingCancelledError(reason));
+}
+
+function throwIfCancelled(signal: AbortSignal) {
+  if (signal.aborted) throw signal.reason instanceof Error ? signal.reason : new EmbeddingCancelledError();
+}
+
+/**
+ * A signal aborted by `cancelEmbedding` or by `own`, whichever comes first. Call `release`
+ * when the work is done, so the shared signal doesn't collect listeners.
+ */
+function linkCancel(own: AbortSignal) {
+  const controller = new AbortController();
+  const sources = [cancelController.signal, own];
+  const onAbort = (event: Event) => controller.abort((event.target as AbortSignal).reason);
+  for (const source of sources) {
+    if (source.aborted) controller.abort(source.reason);
+    else source.addEventListener("abort", onAbort);
+  }
+  return {
+    signal: controller.signal,
+    release: () => sources.forEach((source) => source.removeEventListener("abort", onAbort))
+  };
 }
 
-async function fetchJson(urlPath: string, init?: RequestInit) {
-  const baseUrl = normalizeBaseUrl(settings.baseUrl);
+/** Request options, or a function building them for the endpoint that was picked. */
+type RequestInitFor = RequestInit | ((endpoint: Endpoint) => RequestInit);
+
+type FetchOptions = {
+  /** Overrides the configured retry count, e.g. 0 for capability probes. */
+  retries?: number;
+  /** Overrides the configured request timeout, e.g. for model loads. */
+  timeoutMs?: number;
+  /** Send to this endpoint only, without failover. */
+  endpoint?: Endpoint;
+  /** Only use endpoints that serve this model. */
+  modelId?: string;
+  /** What the request log records about the request, so it needn't parse the body. */
+  logged?: LoggedRequest;
+  /** Aborts the request; defaults to the signal `cancelEmbedding` aborts. */
+  cancelled?: AbortSignal;
+};
+
+type LoggedRequest = { model: string; inputs: string[] };
+
+async function fetchOnce(
+  endpoint: Endpoint,
+  urlPath: string,
+  initFor: RequestInitFor | undefined,
+  timeoutMs: number,
+  { logged, cancelled }: FetchOptions
+) {
+  const cancel = cancelled ?? cancelController.signal;
+  throwIfCancelled(cancel);
+  const init = typeof initFor === "function" ? initFor(endpoint) : initFor;
   const controller = new AbortController();
-  const timeout = window.setTimeout(() => controller.abort(), settings.requestTimeoutMs);
+  let timedOut = false;
+  const timeout = window.setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onCancel = () => controller.abort();
+  cancel.addEventListener("abort", onCancel);
+  const started = performance.now();
+  const log = (status: number | null, response?: unknown, error?: string) =>
+    logRequest({
+      endpoint: endpoint.url,
+      path: urlPath,
+      model: logged?.model,
+      inputs: logged?.inputs,
+      status,
+      latencyMs: performance.now() - started,
+      response,
+      error,
+      secrets: [endpoint.config.apiKey]
+    });
   try {
     const headers = new Headers(init?.headers || {});
-    const apiKey = settings.apiKey?.trim();
+    const apiKey = endpoint.config.apiKey?.trim();
     if (apiKey) {
       const bearer = apiKey.toLowerCase().startsWith("bearer ") ? apiKey : `Bearer ${apiKey}`;
       headers.set("Authorization", bearer);
     }
-    const res = await fetch(`${baseUrl}${urlPath}`, { ...init, headers, signal: controller.signal });
-    const text = await res.text().catch(() => "");
+    let res: Response;
+    try {
+      const url = `${endpoint.url}${urlPath}`;
+      const requestInit = { ...init, headers, signal: controller.signal };
+      res = endpoint.config.backend === "offline" ? await offlineFetch(url, requestInit) : await fetch(url, requestInit);
+    } catch (err: any) {
+      if (cancel.aborted) log(null, undefined, "cancelled");
+      throwIfCancelled(cancel);
+      const reason = timedOut ? `timed out after ${timeoutMs}ms` : err?.message ?? String(err);
+      log(0, undefined, reason);
+      throw new LmStudioHttpError(`LM Studio request to ${endpoint.url} failed: ${reason}`, 0, { timedOut });
+    }
     if (!res.ok) {
-      throw new Error(`LM Studio HTTP ${res.status} ${res.statusText}${text ? `: ${text}` : ""}`);
+      const text = await res.text().catch(() => "");
+      const message = `LM Studio HTTP ${res.status} ${res.statusText}${text ? `: ${text}` : ""}`;
+      log(res.status, undefined, message);
+      throw new LmStudioHttpError(message, res.status, {
+        retryAfterMs: parseRetryAfter(res.headers.get("retry-after"))
+      });
+    }
+    const body = await res.arrayBuffer().catch(() => new ArrayBuffer(0));
+    throwIfCancelled(cancel);
+    let data: any;
+    try {
+      data = await decodeJson(body);
+    } catch (err: any) {
+      log(res.status, undefined, `invalid response: ${err?.message ?? err}`);
+      throw err;
     }
-    return text ? JSON.parse(text) : null;
+    log(res.status, data);
+    return data;
   } finally {
     window.clearTimeout(timeout);
+    cancel.removeEventListener("abort", onCancel);
   }
 }
 
+/**
+ * Retries busy/unreachable responses with exponential backoff and jitter, honoring
+ * `Retry-After`. Requests that still fail count towards the endpoint's circuit breaker.
+ */
+async function fetchFromEndpoint(
+  endpoint: Endpoint,
+  urlPath: string,
+  init: RequestInitFor | undefined,
+  retries: number,
+  opts: FetchOptions = {}
+) {
+  const timeoutMs = opts.timeoutMs ?? settings.requestTimeoutMs;
+  const trial = endpoint.breaker.check();
+  try {
+    for (let attempt = 0; ; attempt++) {
+      const started = performance.now();
+      try {
+        const data = await fetchOnce(endpoint, urlPath, init, timeoutMs, opts);
+        endpoint.breaker.recordSuccess();
+        endpoint.recordSuccess(performance.now() - started);
+        return data;
+      } catch (err) {
+        // A cancel says nothing about the endpoint; the trial is released below.
+        if (err instanceof EmbeddingCancelledError) throw err;
+        if (!isRetryable(err)) {
+          // The server answered, so it is up even if it didn't like this request.
+          if (err instanceof LmStudioHttpError) {
+            endpoint.breaker.recordSuccess();
+            endpoint.recordSuccess(performance.now() - started);
+          }
+          throw err;
+        }
+        if (attempt >= retries) {
+          endpoint.breaker.recordFailure();
+          endpoint.recordFailure(errorMessage(err));
+          throw err;
+        }
+        const delay = backoffDelay(attempt, settings.retryBaseDelayMs, (err as LmStudioHttpError).retryAfterMs);
+        console.log(
+          "[LM Studio Embeddings] request failed; retrying",
+          `${endpoint.url}${urlPath}`,
+          `attempt=${attempt + 1}/${retries}`,
+          `in=${delay}ms`
+        );
+        await sleep(delay, opts.cancelled ?? cancelController.signal);
+      }
+    }
+  } finally {
+    // Exits that recorded nothing (cancels, including during backoff, undecodable
+    // responses, decoder failures) must not leave a half-open trial pending forever.
+    if (trial) endpoint.breaker.releaseTrial();
+  }
+}
+
+/**
+ * Send a request to one of the configured endpoints, failing over to the next one when
+ * an endpoint is down or busy. While another endpoint is available, an endpoint gets at
+ * most one retry before the request moves on.
+ */
+async function fetchJson(backend: BackendId, urlPath: string, init?: RequestInitFor, opts: FetchOptions = {}) {
+  const pool = pools[backend];
+  const configuredRetries = Math.max(0, opts.retries ?? settings.maxRetries);
+  if (opts.endpoint) {
+    return fetchFromEndpoint(opts.endpoint, urlPath, init, configuredRetries, opts);
+  }
+
+  const tried = new Set<Endpoint>();
+  let lastError: unknown = null;
+  for (;;) {
+    const endpoint = pool.pick(opts.modelId ?? null, tried);
+    if (!endpoint) {
+      if (lastError) throw lastError;
+      const retryAt = pool.soonestRetryAt();
+      if (retryAt) throw new CircuitOpenError(retryAt);
+      const name = BACKENDS[backend].name;
+      throw new Error(
+        opts.modelId ? `${name}: no enabled endpoint serves model ${opts.modelId}` : `${name}: no endpoint configured`
+      );
+    }
+    tried.add(endpoint);
+    const hasAlternative = pool.candidates(opts.modelId ?? null, tried).length > 0;
+    try {
+      return await fetchFromEndpoint(
+        endpoint,
+        urlPath,
+        init,
+        hasAlternative ? Math.min(1, configuredRetries) : configuredRetries,
+        opts
+      );
+    } catch (err) {
+      if (!(isRetryable(err) || err instanceof CircuitOpenError) || !hasAlternative) throw err;
+      console.log("[LM Studio Embeddings] endpoint unavailable; failing over", endpoint.url, errorMessage(err));
+      lastError = err;
+    }
+  }
+}
+
+export type EndpointCheck = {
+  backend: BackendId;
+  url: string;
+  reachable: boolean;
+  /** false when the server answered 401/403; null when it wasn't reached. */
+  authorized: boolean | null;
+  latencyMs: number | null;
+  /** Every model the endpoint lists, embedding or not. */
+  models: string[] | null;
+  error: string | null;
+};
+
+/** List models on every enabled endpoint once, without retries, for diagnostics. */
+export async function checkEndpoints(): Promise<EndpointCheck[]> {
+  const checks: EndpointCheck[] = [];
+  for (const backend of configuredBackends()) {
+    const profile = BACKENDS[backend];
+    for (const endpoint of pools[backend].enabled) {
+      const started = performance.now();
+      const check: EndpointCheck = {
+        backend,
+        url: endpoint.url,
+        reachable: false,
+        authorized: null,
+        latencyMs: null,
+        models: null,
+        error: null
+      };
+      try {
+        const models = await profile.listModels((path, init, opts) =>
+          fetchJson(backend, path, init, { ...opts, retries: 0, endpoint })
+        );
+        check.reachable = true;
+        check.authorized = true;
+        check.models = models.map((m) => m.id).filter(Boolean);
+      } catch (err) {
+        check.error = errorMessage(err);
+        if (err instanceof LmStudioHttpError && err.status !== 0) {
+          check.reachable = true;
+          check.authorized = err.status !== 401 && err.status !== 403;
+        }
+      }
+      check.latencyMs = Math.round(performance.now() - started);
+      checks.push(check);
+    }
+  }
+  return checks;
+}
+
+/** The model's raw vector for the canary text, without post-processing. */
+async function embedCanary(backend: BackendId, modelId: string) {
+  const data = await createEmbeddings(backend, modelId, CANARY_TEXT);
+  const vec = BACKENDS[backend].extractEmbeddings(data)[0];
+  if (!vec?.length) throw new Error(`${BACKENDS[backend].name}: empty embedding response`);
+  return vec;
+}
+
+/** Embed one short text with the given model, for diagnostics. Throws on failure. */
+export async function sampleEmbedding(backend: BackendId, modelId: string) {
+  const started = performance.now();
+  const data = await createEmbeddings(backend, modelId, "Smart Connections diagnostics", postProcessingFor(backend, modelId).dimensions);
+  const vec = BACKENDS[backend].extractEmbeddings(data)[0];
+  if (!vec?.length) throw new Error(`${BACKENDS[backend].name}: empty embedding response`);
+  return { dims: vec.length, latencyMs: Math.round(performance.now() - started) };
+}
+
+/**
+ * Whether a failed batch request should be retried one input at a time. Only worth it
+ * when the server rejected the request itself; if it is down or busy, per-item calls
+ * would just fail the same way.
+ */
+function shouldRetryPerItem(err: unknown) {
+  return (
+    !(err instanceof CircuitOpenError) &&
+    !(err instanceof EmbeddingCancelledError) &&
+    !isRetryable(err) &&
+    !isOverload(err)
+  );
+}
+
 export type ProviderModelConfig = {
   id: string;
   name: string;
@@ -54,39 +603,124 @@ export type ProviderModelConfig = {
   max_tokens?: number;
   batch_size?: number;
   use_gpu?: boolean;
+  quantization?: string;
+  loaded?: boolean;
   adapter: string;
 };
 
-let cachedModels: Record<string, ProviderModelConfig> = {};
-let lastFetchedAt = 0;
+const modelCaches = Object.fromEntries(
+  (Object.keys(BACKENDS) as BackendId[]).map((id) => [id, { models: {} as Record<string, ProviderModelConfig>, fetchedAt: 0 }])
+) as Record<BackendId, { models: Record<string, ProviderModelConfig>; fetchedAt: number }>;
+
+export function cachedModelsFor(backend: BackendId) {
+  return modelCaches[backend].models;
+}
+
+// Dims observed from actual embedding responses, keyed by model id. The model
+// endpoints rarely report the embedding length, so this fills the gap.
+const observedDims: Record<string, number> = {};
+
+/**
+ * Fallback heuristic for servers that don't report a model type: embedding models
+ * almost always carry one of these families or the word "embed" in their id.
+ */
+const EMBEDDING_NAME_PATTERN =
+  /embed|bge|\be5\b|e5-|gte|minilm|mpnet|nomic|arctic|jina|mxbai|sentence|retriev|sfr|stella|granite-embedding/i;
+
+function compilePattern(pattern: string): RegExp | null {
+  const trimmed = String(pattern ?? "").trim();
+  if (!trimmed) return null;
+  try {
+    return new RegExp(trimmed, "i");
+  } catch {
+    // Not a valid regex; treat it as a literal substring.
+    return new RegExp(trimmed.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+  }
+}
+
+function isEmbeddingModel(id: string, type: string | null) {
+  const deny = compilePattern(settings.modelDenyPattern);
+  if (deny?.test(id)) return false;
+  const allow = compilePattern(settings.modelAllowPattern);
+  if (allow?.test(id)) return true;
+  if (type) return /embed/i.test(type);
+  return EMBEDDING_NAME_PATTERN.test(id);
+}
+
+function describeModel(profile: BackendProfile, m: DiscoveredModel) {
+  const parts = [`${profile.name} local embedding model`];
+  if (m.quantization) parts.push(m.quantization);
+  if (m.state) parts.push(m.state === "loaded" ? "loaded" : "not loaded");
+  return parts.join(" · ");
+}
 
-export async function listModels(refresh = false) {
+export async function listModels(refresh = false, backend: BackendId = "lmstudio") {
   const now = Date.now();
-  if (!refresh && now - lastFetchedAt < 15_000 && Object.keys(cachedModels).length) return cachedModels;
+  const cache = modelCaches[backend];
+  if (!refresh && now - cache.fetchedAt < 15_000 && Object.keys(cache.models).length) return cache.models;
 
-  const data = await fetchJson("/v1/models");
-  const models: any[] = Array.isArray((data as any)?.data) ? (data as any).data : [];
+  // Listing models doubles as the health check: every enabled endpoint is asked, and
+  // each remembers which models it serves so requests only go where the model exists.
+  // One retry at most, so an endpoint that is offline doesn't hold up the model list.
+  const profile = BACKENDS[backend];
+  const endpoints = pools[backend].enabled;
+  if (!endpoints.length) throw new Error(`${profile.name}: no endpoint configured`);
+  const retries = Math.min(1, settings.maxRetries);
+  const results = await Promise.allSettled(
+    endpoints.map((endpoint) =>
+      profile.listModels((path, init, opts) => fetchJson(backend, path, init, { retries, ...opts, endpoint }))
+    )
+  );
+
+  const discovered: DiscoveredModel[] = [];
+  const loadedIds = new Set<string>();
+  results.forEach((result, i) => {
+    if (result.status === "rejected") {
+      console.warn("[LM Studio Embeddings] failed to list models", endpoints[i].url, result.reason);
+      return;
+    }
+    endpoints[i].models = new Set(result.value.map((m) => m.id).filter(Boolean));
+    for (const m of result.value) {
+      if (m.state === "loaded") loadedIds.add(m.id);
+      discovered.push(m);
+    }
+  });
+  if (results.every((r) => r.status === "rejected")) throw (results[0] as PromiseRejectedResult).reason;
 
   const next: Record<string, ProviderModelConfig> = {};
-  for (const m of models) {
-    const id = String(m?.id ?? "").trim();
-    if (!id) continue;
+  for (const m of discovered) {
+    const id = m.id;
+    if (!id || next[id] || !isEmbeddingModel(id, m.type)) continue;
+    if (loadedIds.has(id)) m.state = "loaded";
+    const resolved = resolveModelSettings(backend, id, { maxTokens: m.maxContextLength });
     next[id] = {
       id,
       name: id,
       model_key: id,
       model: id,
-      description: "LM Studio local embedding model",
-      max_tokens: settings.maxTokens,
-      batch_size: settings.batchSize,
+      description: describeModel(profile, m),
+      dims: m.dims ?? observedDims[id],
+      max_tokens: resolved.maxTokens,
+      batch_size: resolved.batchSize,
       use_gpu: false,
-      adapter: "lmstudio"
+      quantization: m.quantization,
+      loaded: m.state ? m.state === "loaded" : undefined,
+      adapter: backend
     };
   }
 
-  cachedModels = next;
-  lastFetchedAt = now;
-  return cachedModels;
+  cache.models = next;
+  cache.fetchedAt = now;
+  return cache.models;
+}
+
+function rememberModelDims(id: string, dims: number) {
+  if (!id || !Number.isFinite(dims) || dims <= 0) return;
+  observedDims[id] = dims;
+  for (const cache of Object.values(modelCaches)) {
+    const cached = cache.models[id];
+    if (cached && !cached.dims) cached.dims = dims;
+  }
 }
 
 function coerceToText(item: any): string {
@@ -106,54 +740,355 @@ function coerceToText(item: any): string {
 
 function normalizeBatchInputs(inputs: any[]): string[] {
   return inputs.map((item) => {
-    const text = coerceToText(item);
+    const text = preprocessText(coerceToText(item), settings.preprocessing);
     const trimmed = text.trim();
     return trimmed ? trimmed : " ";
   });
 }
 
 
-async function createEmbeddings(model: string, input: string | string[]) {
-  // LM Studio is typically OpenAI-compatible. `encoding_format` improves compatibility
-  // with newer servers that require an explicit output type.
-  const body = JSON.stringify({ model, input, encoding_format: "float" });
-  return await fetchJson("/v1/embeddings", {
-    method: "POST",
-    headers: { "content-type": "application/json" },
-    body
-  });
+/**
+ * Optional request parameters (base64 encoding, Matryoshka `dimensions`) are sent to
+ * endpoints that haven't rejected them. An endpoint that rejects an untried parameter
+ * but answers the same request without it doesn't get that parameter again.
+ */
+async function createEmbeddings(
+  backend: BackendId,
+  model: string,
+  input: string | string[],
+  dimensions: number | null = null,
+  cancelled?: AbortSignal
+): Promise<any> {
+  const profile = BACKENDS[backend];
+  const timeoutMs = resolveModelSettings(backend, model).requestTimeoutMs;
+  let used: { endpoint: Endpoint; features: RequestFeature[] } | null = null;
+  const init = (endpoint: Endpoint): RequestInit => {
+    const features: RequestFeature[] = [];
+    if (profile.base64 && endpoint.accepts.base64 !== false) features.push("base64");
+    if (dimensions && profile.dimensions && endpoint.accepts.dimensions !== false) features.push("dimensions");
+    used = { endpoint, features };
+    const req = profile.embedRequest(model, input, {
+      base64: features.includes("base64"),
+      dimensions: features.includes("dimensions") ? dimensions! : undefined
+    });
+    return {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(req.body)
+    };
+  };
+  // The path doesn't depend on the optional parameters.
+  const { path } = profile.embedRequest(model, input);
+  const logged = { model, inputs: typeof input === "string" ? [input] : input };
+
+  try {
+    const data = await fetchJson(backend, path, init, { modelId: model, timeoutMs, logged, cancelled });
+    const { endpoint, features } = used!;
+    for (const feature of features) endpoint.accepts[feature] = true;
+    lastModelUse.set(modelUseKey(backend, model), Date.now());
+    return data;
+  } catch (err) {
+    const rejected = err instanceof LmStudioHttpError && (err.status === 400 || err.status === 422);
+    const last = used as { endpoint: Endpoint; features: RequestFeature[] } | null;
+    const untried = last ? last.features.filter((f) => last.endpoint.accepts[f] === undefined) : [];
+    if (!rejected || !last || !untried.length) throw err;
+    const { endpoint } = last;
+    for (const feature of untried) endpoint.accepts[feature] = false;
+    try {
+      const data = await fetchJson(backend, path, init, { endpoint, timeoutMs, logged, cancelled });
+      console.log("[LM Studio Embeddings] endpoint does not accept", untried.join(", "), endpoint.url);
+      return data;
+    } catch {
+      // Rejected for some other reason; the parameters may still work.
+      for (const feature of untried) delete endpoint.accepts[feature];
+      throw err;
+    }
+  }
 }
 
-function extractEmbeddings(data: any): number[][] {
-  const items: any[] = Array.isArray(data?.data) ? data.data : [];
-  const out: number[][] = [];
-  for (const it of items) {
-    const emb = it?.embedding;
-    if (!Array.isArray(emb)) throw new Error("LM Studio: invalid embedding response");
-    out.push(emb);
+// When each model last embedded anything, so keep-alive pings only fill gaps.
+const lastModelUse = new Map<string, number>();
+// Models reported as not loaded (with auto-load off), so each is only announced once.
+const reportedUnloadedModels = new Set<string>();
+// Models being loaded, so concurrent adapters (sources, blocks) wait for one load.
+const pendingLoads = new Map<string, Promise<void>>();
+// Models loaded by at least one adapter; `refs` counts the adapters.
+const keepAliveModels = new Map<string, { backend: BackendId; modelId: string; refs: number }>();
+let keepAliveTimer: number | null = null;
+let lastUserActivity = 0;
+
+function modelUseKey(backend: BackendId, modelId: string) {
+  return `${backend}\u0000${modelId}`;
+}
+
+/** Called by the plugin on editor activity; keep-alive pings only run while the user is working. */
+export function noteUserActivity() {
+  lastUserActivity = Date.now();
+}
+
+async function sendWarmUp(backend: BackendId, modelId: string, timeoutMs: number) {
+  const { path, body } = BACKENDS[backend].embedRequest(modelId, "warm-up");
+  await fetchJson(
+    backend,
+    path,
+    {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body)
+    },
+    { modelId, timeoutMs, retries: 0, logged: { model: modelId, inputs: ["warm-up"] } }
+  );
+  lastModelUse.set(modelUseKey(backend, modelId), Date.now());
+}
+
+/**
+ * Servers load models on demand (LM Studio with JIT loading enabled, Ollama always), so
+ * the load is a first embedding request that is allowed to take much longer than usual.
+ */
+async function loadModel(backend: BackendId, modelId: string) {
+  const started = Date.now();
+  const notice = new Notice(`LM Studio Embeddings: loading ${modelId}…`, 0);
+  const ticker = window.setInterval(() => {
+    notice.setMessage(`LM Studio Embeddings: loading ${modelId}… ${Math.round((Date.now() - started) / 1000)}s`);
+  }, 1000);
+  try {
+    await sendWarmUp(backend, modelId, settings.modelLoadTimeoutMs);
+    const cached = cachedModelsFor(backend)[modelId];
+    if (cached) cached.loaded = true;
+    notice.setMessage(`LM Studio Embeddings: ${modelId} loaded in ${Math.round((Date.now() - started) / 1000)}s`);
+    window.setTimeout(() => notice.hide(), 4_000);
+  } catch (err) {
+    console.warn("[LM Studio Embeddings] failed to load model", modelId, err);
+    notice.setMessage(`LM Studio Embeddings: failed to load ${modelId} (${errorMessage(err)})`);
+    window.setTimeout(() => notice.hide(), 10_000);
+  } finally {
+    window.clearInterval(ticker);
+  }
+}
+
+/**
+ * Make sure the model is loaded before the first batch: load it when the server reports
+ * it as unloaded (if allowed), otherwise send a warm-up request. Never throws; embedding
+ * requests report their own errors.
+ */
+async function ensureModelReady(backend: BackendId, modelId: string) {
+  const key = modelUseKey(backend, modelId);
+  const pending = pendingLoads.get(key);
+  if (pending) return pending;
+
+  const cached = cachedModelsFor(backend)[modelId];
+  let task: Promise<void>;
+  if (cached?.loaded === false) {
+    if (!settings.autoLoadModel) {
+      if (reportedUnloadedModels.has(key)) return;
+      reportedUnloadedModels.add(key);
+      new Notice(
+        `LM Studio Embeddings: ${modelId} is not loaded in ${BACKENDS[backend].name}. ` +
+          `Load it there or enable "Load model automatically".`
+      );
+      return;
+    }
+    task = loadModel(backend, modelId);
+  } else if (settings.warmUpModel) {
+    task = sendWarmUp(backend, modelId, resolveModelSettings(backend, modelId).requestTimeoutMs).catch((err) =>
+      console.warn("[LM Studio Embeddings] warm-up request failed", modelId, errorMessage(err))
+    );
+  } else {
+    return;
+  }
+  pendingLoads.set(key, task);
+  try {
+    await task;
+  } finally {
+    pendingLoads.delete(key);
+  }
+}
+
+function keepAliveTick() {
+  const intervalMs = settings.keepAliveMinutes * 60_000;
+  if (!(intervalMs > 0)) return;
+  const now = Date.now();
+  // An idle vault should let the server unload the model after its own TTL.
+  if (now - lastUserActivity > intervalMs) return;
+  for (const [key, { backend, modelId }] of keepAliveModels) {
+    if (now - (lastModelUse.get(key) ?? 0) < intervalMs || pendingLoads.has(key)) continue;
+    sendWarmUp(backend, modelId, resolveModelSettings(backend, modelId).requestTimeoutMs).catch((err) =>
+      console.log("[LM Studio Embeddings] keep-alive ping failed", modelId, errorMessage(err))
+    );
   }
-  return out;
 }
 
-async function embedOne(modelKey: string, text: string): Promise<number[]> {
-  const data = await createEmbeddings(modelKey, text);
-  const embeddings = extractEmbeddings(data);
-  if (!embeddings[0]) throw new Error("LM Studio: empty embedding response");
-  return embeddings[0];
+function startKeepAlive(backend: BackendId, modelId: string) {
+  const key = modelUseKey(backend, modelId);
+  const entry = keepAliveModels.get(key);
+  if (entry) entry.refs++;
+  else keepAliveModels.set(key, { backend, modelId, refs: 1 });
+  if (keepAliveTimer === null) keepAliveTimer = window.setInterval(keepAliveTick, 30_000);
+}
+
+function stopKeepAlive(backend: BackendId, modelId: string) {
+  const key = modelUseKey(backend, modelId);
+  const entry = keepAliveModels.get(key);
+  if (entry && --entry.refs <= 0) keepAliveModels.delete(key);
+}
+
+/** Stop all keep-alive pings (plugin unload). */
+export function stopAllKeepAlive() {
+  keepAliveModels.clear();
+  if (keepAliveTimer !== null) window.clearInterval(keepAliveTimer);
+  keepAliveTimer = null;
 }
 
-function chunk<T>(items: T[], size: number) {
-  const out: T[][] = [];
-  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
-  return out;
+/**
+ * Exact token count from the server, when the backend has a tokenize endpoint. Returns
+ * null if it doesn't; each endpoint is only asked until its first miss.
+ */
+async function countTokensOnServer(backend: BackendId, model: string, text: string): Promise<number | null> {
+  const profile = BACKENDS[backend];
+  if (!profile.tokenizeRequest || !profile.tokenCount) return null;
+  const endpoint = pools[backend].candidates(model).find((e) => e.tokenizeSupported !== false);
+  if (!endpoint) return null;
+  try {
+    const { path, body } = profile.tokenizeRequest(model, text);
+    const data = await fetchJson(
+      backend,
+      path,
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body)
+      },
+      { retries: 0, endpoint, logged: { model, inputs: [text] } }
+    );
+    const count = profile.tokenCount(data);
+    if (count === null) throw new Error(`no tokens in ${path} response`);
+    endpoint.tokenizeSupported = true;
+    return count;
+  } catch (err) {
+    // Only a definite answer from the server means "unsupported"; an outage doesn't.
+    const outage =
+      err instanceof CircuitOpenError ||
+      err instanceof EmbeddingCancelledError ||
+      (err instanceof LmStudioHttpError && err.status === 0);
+    if (!outage) endpoint.tokenizeSupported = false;
+    return null;
+  }
 }
 
-function estimateTokens(text: string) {
-  const len = typeof text === "string" ? text.length : 0;
-  return Math.max(1, Math.ceil(len / 4)); // rough heuristic; SC mainly needs non-zero
+async function embedOne(
+  backend: BackendId,
+  modelId: string,
+  text: string,
+  dimensions: number | null,
+  cancelled?: AbortSignal
+): Promise<{ vec: number[]; tokens: number | null }> {
+  const profile = BACKENDS[backend];
+  const data = await createEmbeddings(backend, modelId, text, dimensions, cancelled);
+  const embeddings = profile.extractEmbeddings(data);
+  if (!embeddings[0]) throw new Error(`${profile.name}: empty embedding response`);
+  return { vec: embeddings[0], tokens: profile.usageTokens(data) };
 }
 
+/**
+ * Embed one request's worth of inputs, one result per input, in order. If the server
+ * rejects or miscounts the batch, each input is retried on its own; inputs that still
+ * fail get an error in place of a vector. Outages (retryable errors, open circuit) are
+ * thrown, since no single input is to blame. `estimates` are token estimates of `group`
+ * as sent, i.e. including the prefix template.
+ */
+async function embedGroup(
+  backend: BackendId,
+  modelId: string,
+  group: string[],
+  estimates: number[],
+  dimensions: number | null,
+  cancelled: AbortSignal
+) {
+  const profile = BACKENDS[backend];
+  const vectors: (number[] | null)[] = [];
+  const tokens: number[] = [];
+  const errors: (string | null)[] = [];
+  const embedEach = async (batchError: string) => {
+    for (const [i, one] of group.entries()) {
+      // `cancelEmbedding` replaces the shared controller, so check the one this call started with.
+      throwIfCancelled(cancelled);
+      try {
+        const single = await embedOne(backend, modelId, one, dimensions, cancelled);
+        vectors.push(single.vec);
+        tokens.push(single.tokens ?? estimates[i]);
+        errors.push(null);
+      } catch (err) {
+        if (!shouldRetryPerItem(err)) throw err;
+        vectors.push(null);
+        tokens.push(0);
+        errors.push(`${errorMessage(err)} (batch request: ${batchError})`);
+      }
+    }
+  };
+
+  let data: any;
+  try {
+    data = await createEmbeddings(backend, modelId, group, dimensions, cancelled);
+  } catch (err) {
+    if (!shouldRetryPerItem(err)) throw err;
+    // Compatibility fallback: some servers only accept a single string.
+    console.log("[LM Studio Embeddings] batch request rejected; retrying per item", errorMessage(err));
+    await embedEach(errorMessage(err));
+    return { vectors, tokens, errors };
+  }
+
+  const embeddings = profile.extractEmbeddings(data);
+  // Some servers accept an array input but return a different count.
+  // Guarantee 1 embedding per input, in order, to match Smart Connections expectations.
+  if (embeddings.length !== group.length) {
+    console.log("[LM Studio Embeddings] embedding count mismatch; recovering", "expected=", group.length, "got=", embeddings.length);
+    await embedEach(`expected ${group.length} embeddings, got ${embeddings.length}`);
+    return { vectors, tokens, errors };
+  }
+
+  vectors.push(...embeddings);
+  errors.push(...group.map(() => null));
+  // Usage is reported per request; spread it over the inputs by their estimates.
+  const estimated = estimates.reduce((sum, n) => sum + n, 0);
+  const actual = profile.usageTokens(data);
+  if (actual !== null) calibrateTokenEstimate(modelId, estimated, actual);
+  for (const n of estimates) tokens.push(actual !== null && estimated > 0 ? (n / estimated) * actual : n);
+  return { vectors, tokens, errors };
+}
+
+/**
+ * Plan the segments for one input. When a segment is close to the limit, the server
+ * tokenizer (if any) gets the final say: its count recalibrates the local estimator
+ * and the input is re-planned until it fits.
+ */
+async function planInput(backend: BackendId, modelId: string, text: string, limit: number): Promise<Segment[]> {
+  const opts = {
+    strategy: settings.truncationStrategy,
+    overlapTokens: settings.chunkOverlapTokens,
+    modelId
+  };
+  let segments = planSegments(text, limit, opts);
+  if (settings.truncationStrategy === "none") return segments;
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const worst = segments.reduce((a, b) => (b.tokens > a.tokens ? b : a));
+    if (worst.tokens < limit * 0.8) break;
+    const exact = await countTokensOnServer(backend, modelId, worst.text);
+    if (exact === null) break;
+    calibrateTokenEstimate(modelId, worst.tokens, exact);
+    if (exact <= limit) {
+      worst.tokens = exact;
+      break;
+    }
+    segments = planSegments(text, limit, opts);
+  }
+  return segments;
+}
+
+type EmbedOutcome = { vec: number[] | null; tokens: number; error?: string };
+
 export class LmStudioEmbeddingAdapter {
+  static backend: BackendId = "lmstudio";
   static adapter = "lmstudio";
   static key = "lm_studio"; // Used by Smart Connections to identify this adapter
   static batch_size = 16;
@@ -164,6 +1099,10 @@ export class LmStudioEmbeddingAdapter {
   };
   model: any;
   state: "unloaded" | "loaded" = "unloaded";
+  // The model `load()` prepared and keeps alive.
+  private loadedModelId: string | null = null;
+  // Aborted by `unload()`, which cancels this instance's requests and no one else's.
+  private unloaded = new AbortController();
 
   constructor(model: any) {
     this.model = model;
@@ -175,8 +1114,15 @@ export class LmStudioEmbeddingAdapter {
    * Format: `{adapter_key}-{model_key}` e.g., "lm_studio-text-embedding-nomic-embed-text-v1.5"
    * 
    * This MUST return the same value across restarts for existing embeddings to be recognized.
+   * It is the LM Studio model id plus any variant suffix (see `embeddingKeyFor`).
    */
   get model_key(): string {
+    const id = this.model_id;
+    return id ? embeddingKeyFor(this.backendId, id) : "";
+  }
+
+  /** The LM Studio model id sent with requests. */
+  get model_id(): string {
     // First try to get the stored model key from model.data
     const stored = this?.model?.data?.model_key ?? this?.model?.data?.model ?? this?.model?.settings?.model_key;
     if (typeof stored === "string" && stored.trim()) {
@@ -188,7 +1134,7 @@ export class LmStudioEmbeddingAdapter {
       return modelLevel.trim();
     }
     // Last resort: first available model from cache
-    const firstModel = Object.keys(cachedModels)[0];
+    const firstModel = Object.keys(cachedModelsFor(this.backendId))[0];
     return firstModel ?? "";
   }
 
@@ -201,7 +1147,16 @@ export class LmStudioEmbeddingAdapter {
   }
 
   get models() {
-    return cachedModels;
+    return cachedModelsFor(this.backendId);
+  }
+
+  /** Which server this adapter talks to; set by each subclass. */
+  get backendId(): BackendId {
+    return (this.constructor as typeof LmStudioEmbeddingAdapter).backend;
+  }
+
+  get profile(): BackendProfile {
+    return BACKENDS[this.backendId];
   }
 
   private coerceRefreshArg(arg: any): boolean {
@@ -212,7 +1167,7 @@ export class LmStudioEmbeddingAdapter {
 
   async get_models(refreshOrOpts: any = false) {
     const refresh = this.coerceRefreshArg(refreshOrOpts);
-    const models = await listModels(refresh);
+    const models = await listModels(refresh, this.backendId);
     if (this?.model?.data && (!this.model.data.provider_models || Object.keys(this.model.data.provider_models).length === 0)) {
       this.model.data.provider_models = models;
     }
@@ -221,26 +1176,67 @@ export class LmStudioEmbeddingAdapter {
 
   async load(refreshOrOpts: any = false) {
     await this.get_models(refreshOrOpts);
+    const modelId = this.model_id;
+    if (modelId) {
+      reportEndpointsMissingModel(this.backendId, modelId);
+      await ensureModelReady(this.backendId, modelId);
+      if (settings.fingerprintModels) await this.checkFingerprint(modelId);
+      if (this.loadedModelId !== modelId) {
+        if (this.loadedModelId) stopKeepAlive(this.backendId, this.loadedModelId);
+        startKeepAlive(this.backendId, modelId);
+        this.loadedModelId = modelId;
+      }
+    }
     this.state = "loaded";
     return this;
   }
 
-  private async ensureModelKey(): Promise<string> {
-    // First check if we already have a valid model key
-    const currentKey = this.model_key;
-    if (currentKey) return currentKey;
+  /**
+   * Compare the canary embedding with the fingerprint stored in the model data. The first
+   * fingerprint for a model is stored silently; a mismatch means the weights changed under
+   * the same id, and new vectors would be mixed into the old index.
+   */
+  private async checkFingerprint(modelId: string) {
+    let current: ModelFingerprint;
+    try {
+      current = fingerprintOf(modelId, await embedCanary(this.backendId, modelId));
+    } catch (err) {
+      console.warn("[LM Studio Embeddings] could not fingerprint model", modelId, errorMessage(err));
+      return;
+    }
+    const save = () => {
+      if (!this?.model?.data) return;
+      this.model.data.fingerprint = current;
+      this.model.debounce_save?.();
+    };
+    const stored = this?.model?.data?.fingerprint;
+    if (!isFingerprint(stored) || stored.model !== modelId) return save();
+    if (sameModel(stored, current)) return;
+
+    console.warn("[LM Studio Embeddings] model changed under the same id", modelId, stored.digest, "->", current.digest);
+    if (modelChangeHandler) {
+      modelChangeHandler({ backend: this.backendId, modelId, stored, current, accept: save });
+    } else {
+      new Notice(`LM Studio Embeddings: ${modelId} returns different vectors than before. Re-embed your notes.`);
+    }
+  }
+
+  private async ensureModelId(): Promise<string> {
+    // First check if we already have a valid model id
+    const currentId = this.model_id;
+    if (currentId) return currentId;
 
     // Need to fetch models to get a fallback
     await this.get_models(true);
-    const fallback = Object.keys(cachedModels)[0]?.trim() ?? "";
-    if (!fallback) throw new Error("LM Studio: no models available (GET /v1/models returned empty)");
+    const fallback = Object.keys(cachedModelsFor(this.backendId))[0]?.trim() ?? "";
+    if (!fallback) throw new Error(`${this.profile.name}: no models available`);
 
     // Persist the model key so it's consistent across restarts
     if (this?.model?.data) {
       this.model.data.model_key = fallback;
       this.model.data.model = fallback;
       // Also store adapter info for Smart Connections
-      this.model.data.adapter = "lm_studio";
+      this.model.data.adapter = this.profile.adapterKey;
       this.model.debounce_save?.();
     }
     return fallback;
@@ -254,22 +1250,21 @@ export class LmStudioEmbeddingAdapter {
     if (this?.model?.data) {
       this.model.data.model_key = key;
       this.model.data.model = key;
-      this.model.data.adapter = "lm_studio";
+      this.model.data.adapter = this.profile.adapterKey;
       this.model.debounce_save?.();
     }
   }
 
-  private padToLength(vectors: number[][], targetLength: number) {
-    if (vectors.length >= targetLength) return vectors.slice(0, targetLength);
+  /** Placeholder for a failed input in `pad` failure mode. */
+  private zeroVector(dimsHint?: number) {
     const dims =
       (Number.isFinite(this?.model?.data?.dims) ? this.model.data.dims : null) ??
-      (Number.isFinite(vectors[0]?.length) ? vectors[0].length : null) ??
+      (Number.isFinite(dimsHint) && dimsHint! > 0 ? dimsHint! : null) ??
       1536;
-    const out = vectors.slice();
-    for (let i = vectors.length; i < targetLength; i++) out.push(Array.from({ length: dims }, () => 0));
-    return out;
+    return Array.from({ length: dims }, () => 0);
   }
 
+  /** The batch size for this model: its override, else what SC stored for it, else the global setting. */
   private ensureBatchSize(): number {
     const fallback = settings.batchSize ?? 16;
     const candidate = Number(this?.model?.data?.batch_size);
@@ -293,13 +1288,23 @@ export class LmStudioEmbeddingAdapter {
     } catch {
       // ignore
     }
-    return valid;
+    return this.model_id ? resolveModelSettings(this.backendId, this.model_id, { batchSize: valid }).batchSize : valid;
   }
 
   get batch_size() {
     return this.ensureBatchSize();
   }
 
+  /**
+   * Token limit per request input: the model's "max tokens" override, else the model's own
+   * limit when SC or LM Studio reported one, otherwise the global "max tokens" setting. A
+   * few tokens are kept back for the special tokens the server adds.
+   */
+  private tokenLimit(modelId: string): number {
+    const limit = resolveModelSettings(this.backendId, modelId, { maxTokens: this?.model?.data?.max_tokens }).maxTokens;
+    return Math.max(8, limit - 4);
+  }
+
   private coerceBatchInputs(arg0: any, arg1: any): any[] {
     if (Array.isArray(arg0) && arg0.length) return arg0;
     if (Array.isArray(arg1) && arg1.length) return arg1;
@@ -335,76 +1340,339 @@ export class LmStudioEmbeddingAdapter {
   }
 
   async embed_batch(...args: any[]) {
-    const [arg0, arg1, arg2] = args;
-    const coerced = this.coerceBatchInputsFromArgs(args);
+    return this.embedInputs(this.coerceBatchInputsFromArgs(args), "document");
+  }
+
+  private async embedInputs(coerced: any[], kind: EmbedKind, failureMode: FailureMode = settings.failureMode) {
     if (coerced.length === 0) return [];
 
+    const modelId = await this.ensureModelId();
     const batchSize = this.ensureBatchSize();
-    const modelKey = await this.ensureModelKey();
+    // Don't race a model load that is still in progress.
+    await pendingLoads.get(modelUseKey(this.backendId, modelId));
 
     const normalized = normalizeBatchInputs(coerced);
     if (normalized.length === 0) return [];
 
-    const vectors: number[][] = [];
+    const { prefixTemplates, postProcessing } = resolveModelSettings(this.backendId, modelId);
+    const template = prefixTemplates[kind];
+    const cache = settings.cacheEnabled ? embeddingCache : null;
+    const embeddingKey = embeddingKeyFor(this.backendId, modelId);
+    const cacheContext = [
+      template,
+      settings.truncationStrategy,
+      this.tokenLimit(modelId),
+      settings.chunkOverlapTokens,
+      settings.poolingMode,
+      postProcessing.normalize,
+      postProcessing.precision
+    ].join("\u0000");
 
-    for (const group of chunk(normalized, batchSize)) {
-      try {
-        const data = await createEmbeddings(modelKey, group);
-        const embeddings = extractEmbeddings(data);
-
-        // Some servers accept an array input but return a different count.
-        // Guarantee 1 embedding per input, in order, to match Smart Connections expectations.
-        if (embeddings.length !== group.length) {
-          console.log(
-            "[LM Studio Embeddings] embedding count mismatch; recovering",
-            "expected=",
-            group.length,
-            "got=",
-            embeddings.length
-          );
-          const recovered: number[][] = [];
-          for (const one of group) recovered.push(await embedOne(modelKey, one));
-          vectors.push(...recovered);
-        } else {
-          vectors.push(...embeddings.slice(0, group.length));
+    // Serve cache hits directly and only send the misses to the server.
+    const results: (EmbedOutcome | null)[] = normalized.map((text) =>
+      cache ? cache.get(embeddingKey, cacheContext, text) : null
+    );
+    const missIndexes = results.flatMap((hit, idx) => (hit ? [] : [idx]));
+    if (missIndexes.length) {
+      // Identical inputs (repeated template blocks, empty blocks) are embedded once.
+      const uniqueTexts: string[] = [];
+      const slotOf = new Map<string, number>();
+      const slots = missIndexes.map((idx) => {
+        const text = normalized[idx];
+        let slot = slotOf.get(text);
+        if (slot === undefined) {
+          slot = uniqueTexts.push(text) - 1;
+          slotOf.set(text, slot);
         }
+        return slot;
+      });
+
+      const job = beginEmbedding();
+      const cancel = linkCancel(this.unloaded.signal);
+      let outcomes: EmbedOutcome[];
+      try {
+        outcomes = await this.embedTexts(
+          modelId,
+          uniqueTexts,
+          template,
+          batchSize,
+          postProcessing,
+          failureMode,
+          cancel.signal
+        );
       } catch (err) {
-        // Compatibility fallback: some servers only accept a single string.
-        const recovered: number[][] = [];
-        for (const one of group) recovered.push(await embedOne(modelKey, one));
-        vectors.push(...recovered);
+        job.fail(err);
+        throw err;
+      } finally {
+        cancel.release();
       }
+      const missOutcomes = slots.map((slot) => outcomes[slot]);
+      job.finish(missOutcomes.filter((o) => o.vec && !o.error).length, outcomes.find((o) => o.error)?.error ?? null);
+      outcomes.forEach((item, slot) => {
+        if (cache && item.vec && !item.error) cache.set(embeddingKey, cacheContext, uniqueTexts[slot], item.vec, item.tokens);
+      });
+      const used = new Set<EmbedOutcome>();
+      missIndexes.forEach((idx, i) => {
+        const item = missOutcomes[i];
+        // Each copy gets its own vector, in case Smart Connections modifies one in place.
+        results[idx] = used.has(item) && item.vec ? { ...item, vec: item.vec.slice() } : item;
+        used.add(item);
+      });
+    }
+    return this.finalizeOutcomes(coerced, results, embeddingKey, failureMode);
+  }
 
-      // Best-effort dims inference + persistence (only on first batch, only if not already set)
-      if (vectors.length > 0 && this?.model?.data && !Number.isFinite(this.model.data.dims)) {
-        const inferredDims = vectors[0]?.length;
-        if (Number.isFinite(inferredDims) && inferredDims > 0) {
-          this.model.data.dims = inferredDims;
-          this.model.debounce_save?.();
+  /**
+   * Record which Smart Connections items failed and apply the failure mode. Failures are
+   * never silent: even in `pad` mode they are logged and listed.
+   */
+  private finalizeOutcomes(
+    inputs: any[],
+    results: (EmbedOutcome | null)[],
+    embeddingKey: string,
+    failureMode: FailureMode
+  ) {
+    let failed = 0;
+    let firstError = "";
+    const dimsHint = results.find((r) => r?.vec?.length)?.vec?.length;
+    for (const [idx, result] of results.entries()) {
+      const key = itemKey(inputs[idx]);
+      const error = !result?.vec ? result?.error ?? "no embedding returned" : result.error;
+      if (!error) {
+        if (key) clearFailure(key);
+        continue;
+      }
+      failed++;
+      firstError = firstError || error;
+      if (key) recordFailure(key, embeddingKey, error);
+    }
+
+    if (failed) {
+      console.warn("[LM Studio Embeddings] failed to embed", failed, "of", results.length, "inputs:", firstError);
+      if (failureMode === "throw") {
+        throw new Error(`LM Studio: failed to embed ${failed} of ${results.length} inputs: ${firstError}`);
+      }
+    }
+
+    return results.map((result) => {
+      if (result?.vec && !result.error) return { vec: result.vec, tokens: result.tokens };
+      const error = result?.error ?? "no embedding returned";
+      if (failureMode === "pad") return { vec: this.zeroVector(dimsHint), tokens: result?.tokens ?? 0 };
+      return { vec: null, tokens: 0, error: { message: error } };
+    });
+  }
+
+  /**
+   * Truncate or window each text, embed all segments, pool them back into one vector per
+   * text and post-process it. Texts that could not be embedded come back with `vec: null`
+   * and an error; a failed batch throws instead unless `failureMode` is `item_errors`.
+   * `cancelled` aborts every request the call makes.
+   */
+  private async embedTexts(
+    modelId: string,
+    normalized: string[],
+    template: string,
+    batchSize: number,
+    postProcessing: PostProcessing,
+    failureMode: FailureMode,
+    cancelled: AbortSignal
+  ): Promise<EmbedOutcome[]> {
+    // The instruction prefix is added to every segment, so it comes out of the token budget.
+    const overhead = templateOverhead(template);
+    const overheadTokens = overhead ? estimateTokens(overhead, modelId) : 0;
+    const limit = this.tokenLimit(modelId) - overheadTokens;
+
+    // Split or truncate each input to the token limit, then embed all segments flat.
+    const plans: Segment[][] = [];
+    for (const text of normalized) {
+      throwIfCancelled(cancelled);
+      plans.push(await planInput(this.backendId, modelId, text, limit));
+    }
+    const segments = plans.flat();
+    const segmentTexts = segments.map((seg) => applyTemplate(template, seg.text || " "));
+
+    const vectors: (number[] | null)[] = new Array(segments.length).fill(null);
+    const segmentTokens: number[] = new Array(segments.length).fill(0);
+    const segmentErrors: (string | null)[] = new Array(segments.length).fill(null);
+
+    // Segments are packed into batches by length (so short blocks don't wait for a long
+    // note in the same request) and under the token budget. Ranges below are positions in
+    // `order`; results are written back by segment index, so the output order always
+    // matches the input order.
+    const order = lengthOrder(segments.map((seg) => seg.tokens));
+    const packedTokens = order.map((i) => segments[i].tokens + overheadTokens);
+    const tuner = settings.adaptiveBatching
+      ? new AdaptiveBatchSize(batchSize, 1, Math.max(batchSize, settings.maxBatchSize), settings.adaptiveTargetLatencyMs)
+      : null;
+    await dispatchRanges(
+      segments.length,
+      settings.concurrency,
+      (start) => fitBatch(packedTokens, start, tuner?.size ?? batchSize, settings.maxBatchTokens),
+      async (start, end) => {
+        throwIfCancelled(cancelled);
+        const started = performance.now();
+        const batch = order.slice(start, end);
+        let result: Awaited<ReturnType<typeof embedGroup>>;
+        try {
+          result = await embedGroup(
+            this.backendId,
+            modelId,
+            batch.map((i) => segmentTexts[i]),
+            // Estimates of the text as sent, prefix included, to compare with the server's usage.
+            packedTokens.slice(start, end),
+            postProcessing.dimensions,
+            cancelled
+          );
+        } catch (err) {
+          // Oversized batches are split by the dispatcher; other errors fail the whole
+          // call unless failures are reported per item.
+          if (
+            failureMode !== "item_errors" ||
+            err instanceof EmbeddingCancelledError ||
+            (isOverload(err) && end - start > 1)
+          ) {
+            throw err;
+          }
+          for (const i of batch) segmentErrors[i] = errorMessage(err);
+          return;
         }
+        tuner?.recordSuccess(end - start, performance.now() - started);
+        result.vectors.forEach((vec, i) => (vectors[batch[i]] = vec));
+        result.tokens.forEach((n, i) => (segmentTokens[batch[i]] = n));
+        result.errors.forEach((error, i) => (segmentErrors[batch[i]] = error));
+      },
+      (err) => {
+        if (!isOverload(err)) return false;
+        tuner?.recordOverload();
+        console.log("[LM Studio Embeddings] batch too large for server; splitting", errorMessage(err));
+        return true;
       }
+    );
+
+    if (tuner && tuner.size !== batchSize && this?.model?.data) {
+      this.model.data.batch_size = tuner.size;
+      this.model.debounce_save?.();
+    }
+
+    // The model's own size goes into the model list; only a full-size response shows it.
+    const firstVector = vectors.find((v) => v?.length);
+    if (firstVector && (postProcessing.dimensions === null || firstVector.length > postProcessing.dimensions)) {
+      rememberModelDims(modelId, firstVector.length);
     }
 
-    const padded = this.padToLength(vectors, normalized.length);
-    return padded.map((vec, idx) => ({ vec, tokens: estimateTokens(normalized[idx] ?? "") }));
+    // Pool multi-window inputs back into one vector per input.
+    const outcomes: EmbedOutcome[] = [];
+    let offset = 0;
+    for (const plan of plans) {
+      // Endpoints may differ in whether they honored `dimensions`; cut to size before pooling.
+      const vecs = vectors
+        .slice(offset, offset + plan.length)
+        .map((v) => (v ? postProcessVector(v, { ...NO_POST_PROCESSING, dimensions: postProcessing.dimensions }) : v));
+      const counts = segmentTokens.slice(offset, offset + plan.length);
+      const error = segmentErrors.slice(offset, offset + plan.length).find((e) => e) ?? null;
+      offset += plan.length;
+      if (error || vecs.some((v) => !v)) {
+        outcomes.push({ vec: null, tokens: 0, error: error ?? "no embedding returned" });
+        continue;
+      }
+      const tokens = counts.reduce((a, b) => a + b, 0);
+      const vec = postProcessVector(poolVectors(vecs as number[][], counts, settings.poolingMode), postProcessing);
+      outcomes.push({ vec, tokens: Math.max(1, Math.round(tokens)) });
+    }
+
+    // Smart Connections sizes its vectors by `dims`, which must match the output size.
+    const outputDims = outcomes.find((o) => o.vec?.length)?.vec?.length;
+    if (outputDims && this?.model?.data && this.model.data.dims !== outputDims) {
+      this.model.data.dims = outputDims;
+      this.model.debounce_save?.();
+    }
+    return outcomes;
   }
 
+  /**
+   * Single-input entry point; Smart Connections uses it for search lookups, so it embeds as
+   * a query. A failed query always throws: a null or zero vector would only surface later
+   * as an unrelated error (or meaningless results) in the similarity search.
+   */
   async embed(texts: any[]) {
     const inputs = Array.isArray(texts) ? texts : [texts];
-    const items = await this.embed_batch(inputs);
+    const items = await this.embedInputs(inputs, "query", "throw");
     return items[0] ?? { vec: [] };
   }
 
-  async embed_documents(texts: any[]) {
-    return this.embed_batch(texts);
+  /** `failureMode` overrides the setting, for callers that must see every failure. */
+  async embed_documents(texts: any[], failureMode?: FailureMode) {
+    return this.embedInputs(Array.isArray(texts) ? texts : [texts], "document", failureMode);
+  }
+
+  /** Batch counterpart of `embed_query`. */
+  async embed_queries(texts: any[], failureMode?: FailureMode) {
+    return this.embedInputs(Array.isArray(texts) ? texts : [texts], "query", failureMode);
   }
 
+  /** Like `embed`, a failed query throws. */
   async embed_query(text: any) {
-    const items = await this.embed_batch([text]);
+    const items = await this.embedInputs([text], "query", "throw");
     return items[0] ?? { vec: [] };
   }
 
   async unload() {
+    this.unloaded.abort(new EmbeddingCancelledError("cancelled: adapter unloaded"));
+    this.unloaded = new AbortController();
+    if (this.loadedModelId) stopKeepAlive(this.backendId, this.loadedModelId);
+    this.loadedModelId = null;
     this.state = "unloaded";
   }
 }
+
+export class OllamaEmbeddingAdapter extends LmStudioEmbeddingAdapter {
+  static backend: BackendId = "ollama";
+  static adapter = "ollama_embed";
+  static key = "ollama_embed";
+  static defaults = {
+    adapter: "ollama_embed",
+    description: "Ollama local embedding model",
+    default_model: ""
+  };
+}
+
+export class LlamaCppEmbeddingAdapter extends LmStudioEmbeddingAdapter {
+  static backend: BackendId = "llamacpp";
+  static adapter = "llama_cpp";
+  static key = "llama_cpp";
+  static defaults = {
+    adapter: "llama_cpp",
+    description: "llama.cpp server embedding model",
+    default_model: ""
+  };
+}
+
+export class TeiEmbeddingAdapter extends LmStudioEmbeddingAdapter {
+  static backend: BackendId = "tei";
+  static adapter = "tei";
+  static key = "tei";
+  static defaults = {
+    adapter: "tei",
+    description: "Text Embeddings Inference model",
+    default_model: ""
+  };
+}
+
+export class OfflineEmbeddingAdapter extends LmStudioEmbeddingAdapter {
+  static backend: BackendId = "offline";
+  static adapter = "offline_embed";
+  static key = "offline_embed";
+  static defaults = {
+    adapter: "offline_embed",
+    description: "Offline hashed n-gram embeddings (for testing)",
+    default_model: ""
+  };
+}
+
+export const ADAPTER_CLASSES: Record<BackendId, typeof LmStudioEmbeddingAdapter> = {
+  lmstudio: LmStudioEmbeddingAdapter,
+  ollama: OllamaEmbeddingAdapter,
+  llamacpp: LlamaCppEmbeddingAdapter,
+  tei: TeiEmbeddingAdapter,
+  offline: OfflineEmbeddingAdapter
+};
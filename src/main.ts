@@ -1,319 +1,719 @@
-import { App, Notice, Plugin, PluginSettingTab, Setting } from "obsidian";
-import { LmStudioEmbeddingAdapter, setLmStudioSettings, listModels } from "./lmstudio";
+import { App, Notice, Plugin, PluginSettingTab, Setting, TFile } from "obsidian";
+import { getActivity, onActivityChanged } from "./activity";
+import { createEmbeddingApi, EmbeddingApi } from "./api";
+import { BackendId, BACKENDS } from "./backends";
+import { EmbeddingCache } from "./cache";
+import { disposeDecoder } from "./decoder";
+import { runDiagnostics } from "./diagnostics";
+import { EndpointConfig, EndpointHealth, LoadBalancing, normalizeBaseUrl } from "./endpoints";
+import { clearFailures, FailureMode } from "./failures";
+import {
+  cancelEmbedding,
+  configuredBackends,
+  embeddingKeyFor,
+  getEndpointHealth,
+  prefixTemplatesFor,
+  listModels,
+  ModelChange,
+  ModelOverride,
+  modelOverrideKey,
+  noteUserActivity,
+  setEmbeddingCache,
+  setLmStudioSettings,
+  setModelChangeHandler,
+  stopAllKeepAlive
+} from "./lmstudio";
+import { MigrationTarget, runMigration, scEmbedKey, stopMigration } from "./migration";
+import {
+  DiagnosticsModal,
+  FailedEmbeddingsModal,
+  MigrationModal,
+  ModelChangeChoice,
+  ModelChangedModal,
+  PreprocessPreviewModal,
+  RequestLogModal
+} from "./modals";
+import { configureOfflineServer } from "./offline";
+import { findPrefixPreset } from "./prefixes";
+import {
+  DEFAULT_PREPROCESSING,
+  normalizePreprocessing,
+  PREPROCESS_STEPS,
+  PreprocessingOptions,
+  preprocessText
+} from "./preprocess";
+import {
+  findProvidersRegistry,
+  findSmartConnectionsPlugin,
+  isRegistered,
+  onEnvAssigned,
+  onSmartConnectionsLoaded,
+  registerProviders,
+  registrationChecks,
+  restoreRegistries,
+  selectedModel
+} from "./registration";
+import { configureRequestLog, exportRequestLog } from "./requestlog";
+import { attachVectors, buildExport, collectVectors, decodeExport, encodeBinary, encodeJsonl, ExportFormat } from "./transfer";
+import type { PoolingMode, TruncationStrategy } from "./truncation";
 
 type Settings = {
-  baseUrl: string;
-  apiKey: string;
+  endpoints: EndpointConfig[];
+  loadBalancing: LoadBalancing;
   requestTimeoutMs: number;
   maxTokens: number;
   batchSize: number;
+  modelAllowPattern: string;
+  modelDenyPattern: string;
+  truncationStrategy: TruncationStrategy;
+  chunkOverlapTokens: number;
+  poolingMode: PoolingMode;
+  prefixPresets: boolean;
+  modelOverrides: Record<string, ModelOverride>;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  circuitBreakerThreshold: number;
+  circuitBreakerCooldownMs: number;
+  cacheEnabled: boolean;
+  cacheMaxMb: number;
+  concurrency: number;
+  adaptiveBatching: boolean;
+  adaptiveTargetLatencyMs: number;
+  maxBatchSize: number;
+  maxBatchTokens: number;
+  failureMode: FailureMode;
+  autoLoadModel: boolean;
+  modelLoadTimeoutMs: number;
+  warmUpModel: boolean;
+  keepAliveMinutes: number;
+  fingerprintModels: boolean;
+  preprocessing: PreprocessingOptions;
+  requestLog: boolean;
+  requestLogSize: number;
+  requestLogHashInputs: boolean;
+  offlineDimensions: number;
+  offlineCountMismatchPercent: number;
+  offlineTimeoutPercent: number;
+  offlineHttpErrorPercent: number;
+  offlineHttpErrorStatus: number;
+  migrationBatchItems: number;
+  migrationDelayMs: number;
+  migrationThresholdPercent: number;
 };
 
+const DEFAULT_BASE_URL = "http://127.0.0.1:1234";
+// How long to wait for Smart Connections to create its env after it (or we) loaded.
+const REGISTRATION_WAIT_MS = 120_000;
+// Checks while waiting start quickly (registration must beat the loading of existing
+// embeddings) and back off to this interval.
+const REGISTRATION_FIRST_CHECK_MS = 200;
+const REGISTRATION_MAX_CHECK_MS = 5_000;
+// Safety net for registries replaced without a plugin load or env assignment we can see;
+// backs off while registering again doesn't stick.
+const REGISTRY_WATCH_MS = 30_000;
+const REGISTRY_WATCH_MAX_MS = 10 * 60_000;
+
 const DEFAULT_SETTINGS: Settings = {
-  baseUrl: "http://127.0.0.1:1234",
-  apiKey: "",
+  endpoints: [{ backend: "lmstudio", url: DEFAULT_BASE_URL, apiKey: "", weight: 1, enabled: true }],
+  loadBalancing: "round_robin",
   requestTimeoutMs: 120_000,
   maxTokens: 512,
-  batchSize: 16
+  batchSize: 16,
+  modelAllowPattern: "",
+  modelDenyPattern: "",
+  truncationStrategy: "head",
+  chunkOverlapTokens: 64,
+  poolingMode: "weighted",
+  prefixPresets: false,
+  modelOverrides: {},
+  maxRetries: 3,
+  retryBaseDelayMs: 500,
+  circuitBreakerThreshold: 5,
+  circuitBreakerCooldownMs: 30_000,
+  cacheEnabled: true,
+  cacheMaxMb: 64,
+  concurrency: 2,
+  adaptiveBatching: false,
+  adaptiveTargetLatencyMs: 5_000,
+  maxBatchSize: 128,
+  maxBatchTokens: 8192,
+  failureMode: "item_errors",
+  autoLoadModel: false,
+  modelLoadTimeoutMs: 300_000,
+  warmUpModel: true,
+  keepAliveMinutes: 0,
+  fingerprintModels: true,
+  preprocessing: DEFAULT_PREPROCESSING,
+  requestLog: false,
+  requestLogSize: 200,
+  requestLogHashInputs: true,
+  offlineDimensions: 384,
+  offlineCountMismatchPercent: 0,
+  offlineTimeoutPercent: 0,
+  offlineHttpErrorPercent: 0,
+  offlineHttpErrorStatus: 500,
+  migrationBatchItems: 8,
+  migrationDelayMs: 2_000,
+  migrationThresholdPercent: 90
 };
 
+/** Backend of a per-model override key (`modelOverrideKey`); null for old, bare model ids. */
+function overrideBackend(key: string): BackendId | null {
+  const backend = key.slice(0, key.indexOf(":"));
+  return backend in BACKENDS ? (backend as BackendId) : null;
+}
+
 /**
- * Known adapter keys that Smart Connections may use to look up the LM Studio adapter.
- * We register under all of these to maximize compatibility.
+ * Settings saved before endpoint lists existed hold a single `baseUrl`/`apiKey` pair;
+ * turn that into the first endpoint. Per-model overrides used to be keyed by the bare
+ * model id and applied on every backend; each becomes one entry per configured backend.
  */
-const ADAPTER_KEYS = ["lm_studio", "lmstudio", "lm-studio"] as const;
-
-function findSmartConnectionsPlugin(app: App) {
-  try {
-    const appAny = app as any;
-    return appAny?.plugins?.getPlugin?.("smart-connections") ?? appAny?.plugins?.plugins?.["smart-connections"] ?? null;
-  } catch {
-    return null;
+function migrateSettings(data: any): Partial<Settings> {
+  const out = { ...(data ?? {}) };
+  const endpoints: any[] = Array.isArray(out.endpoints) && out.endpoints.length
+    ? out.endpoints
+    : [{ url: out.baseUrl || DEFAULT_BASE_URL, apiKey: out.apiKey ?? "", weight: 1, enabled: true }];
+  out.endpoints = endpoints.map((e) => ({
+    backend: e?.backend in BACKENDS ? e.backend : "lmstudio",
+    url: String(e?.url ?? ""),
+    apiKey: String(e?.apiKey ?? ""),
+    weight: Number(e?.weight) > 0 ? Number(e.weight) : 1,
+    enabled: e?.enabled !== false
+  }));
+  delete out.baseUrl;
+  delete out.apiKey;
+  const backends = [...new Set<BackendId>(out.endpoints.map((e: EndpointConfig) => e.backend))];
+  const overrides: Record<string, ModelOverride> = {};
+  for (const [key, override] of Object.entries<ModelOverride>(out.modelOverrides ?? {})) {
+    if (overrideBackend(key)) overrides[key] = override;
+    else for (const backend of backends) overrides[modelOverrideKey(backend, key)] ??= override;
   }
+  out.modelOverrides = overrides;
+  out.preprocessing = normalizePreprocessing(out.preprocessing);
+  return out;
 }
 
-function isRecord(value: unknown): value is Record<string, any> {
-  return !!value && typeof value === "object" && !Array.isArray(value);
-}
+export default class SmartConnectionsLmStudioEmbeddings extends Plugin {
+  settings: Settings = DEFAULT_SETTINGS;
+  cache: EmbeddingCache | null = null;
+  /** Public API for other plugins; see api.ts. */
+  api: EmbeddingApi = createEmbeddingApi(() => selectedModel(findSmartConnectionsPlugin(this.app)?.env));
+  private bootstrapped = false;
+  private registrationTimer: number | null = null;
+  private registryWatchTimer: number | null = null;
+  // The Smart Connections instance whose env assignments are followed.
+  private watchedSc: any = null;
+  private unwatchEnv: () => void = () => {};
+
+  async onload() {
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, migrateSettings(await this.loadData()));
+    this.applySettings();
+    this.addSettingTab(new LmStudioSettingsTab(this.app, this));
+    this.initCache();
+
+    this.addCommand({
+      id: "show-failed-embeddings",
+      name: "Show failed embeddings",
+      callback: () => new FailedEmbeddingsModal(this.app, (keys) => this.requeueItems(keys)).open()
+    });
 
-function findProvidersRegistry(env: any): Record<string, any> | null {
-  const candidates = [
-    env?.config?.collections?.embedding_models?.providers,
-    env?.config?.embedding_models?.providers,
-    env?.embedding_models?.providers,
-    env?.embedding_models?.config?.providers
-  ];
+    this.addCommand({
+      id: "cancel-embedding",
+      name: "Cancel embedding",
+      callback: () => {
+        cancelEmbedding();
+        new Notice("LM Studio Embeddings: cancelled embedding requests in progress");
+      }
+    });
+
+    this.addCommand({
+      id: "run-diagnostics",
+      name: "Run diagnostics",
+      callback: () => this.openDiagnostics()
+    });
+
+    this.addCommand({
+      id: "show-request-log",
+      name: "Show request log",
+      callback: () => this.openRequestLog()
+    });
+
+    this.addCommand({
+      id: "export-embeddings-jsonl",
+      name: "Export embeddings for the current model (JSONL)",
+      callback: () => this.exportEmbeddings("jsonl")
+    });
+
+    this.addCommand({
+      id: "export-embeddings-binary",
+      name: "Export embeddings for the current model (binary)",
+      callback: () => this.exportEmbeddings("binary")
+    });
+
+    this.addCommand({
+      id: "import-embeddings",
+      name: "Import embeddings",
+      callback: () => this.pickEmbeddingsImport()
+    });
+
+    this.addCommand({
+      id: "open-migration-assistant",
+      name: "Migrate to another embedding model",
+      callback: () => this.openMigrationAssistant()
+    });
 
-  for (const c of candidates) {
-    if (isRecord(c)) return c;
+    this.initStatusBar();
+    setModelChangeHandler((change) =>
+      new ModelChangedModal(
+        this.app,
+        change.modelId,
+        `fingerprint ${change.stored.digest} → ${change.current.digest}, ${change.stored.dims} → ${change.current.dims} dims`,
+        (choice) => this.handleModelChange(change, choice)
+      ).open()
+    );
+
+    this.registerEvent(this.app.workspace.on("editor-change", () => noteUserActivity()));
+
+    new Notice(`LM Studio Embeddings loaded (v${this.manifest?.version ?? "unknown"})`);
+
+    // Register as soon as Smart Connections' registries exist (before it loads existing
+    // embeddings, which is critical for preventing re-embedding on restart), and again
+    // whenever Smart Connections is reloaded or rebuilds its env.
+    this.register(onSmartConnectionsLoaded(this.app, () => this.scheduleRegistration()));
+    this.register(() => this.watchEnv(null));
+    this.app.workspace.onLayoutReady(() => this.scheduleRegistration());
+    this.scheduleRegistration();
+    this.watchRegistries();
   }
 
-  const collections = env?.config?.collections;
-  if (isRecord(collections)) {
-    for (const value of Object.values(collections)) {
-      const maybeProviders = (value as any)?.embedding_models?.providers ?? (value as any)?.providers;
-      if (isRecord(maybeProviders)) return maybeProviders;
-    }
+  onunload() {
+    this.stopRegistrationPolling();
+    if (this.registryWatchTimer !== null) window.clearTimeout(this.registryWatchTimer);
+    stopMigration();
+    cancelEmbedding("cancelled: plugin unloaded");
+    setModelChangeHandler(null);
+    restoreRegistries();
+    setEmbeddingCache(null);
+    stopAllKeepAlive();
+    disposeDecoder();
+    this.cache?.flush().catch((err) => console.warn("[LM Studio Embeddings] failed to save embedding cache", err));
   }
 
-  return null;
-}
+  /**
+   * Queue Smart Connections sources/blocks for embedding again and kick off their embed
+   * queues. Returns how many of the keys were found.
+   */
+  async requeueItems(keys: string[]) {
+    const env = findSmartConnectionsPlugin(this.app)?.env;
+    if (!env) throw new Error("Smart Connections is not loaded");
 
-async function waitForSmartConnectionsEnv(app: App, timeoutMs = 60_000) {
-  const started = Date.now();
-  while (Date.now() - started < timeoutMs) {
-    const sc = findSmartConnectionsPlugin(app);
-    const env = sc?.env;
-    if (sc && env && (findProvidersRegistry(env) || env?.embedding_models)) return { sc, env };
-    await new Promise((r) => window.setTimeout(r, 500));
-  }
-  throw new Error("Timed out waiting for Smart Connections env");
-}
+    const found: string[] = [];
+    const collections = new Set<any>();
+    for (const key of keys) {
+      // Block keys look like "path.md#Heading"; source keys are plain paths.
+      const collection = key.includes("#") ? env.smart_blocks : env.smart_sources;
+      const item = collection?.get?.(key) ?? collection?.items?.[key];
+      if (!item) continue;
+      if (typeof item.queue_embed === "function") item.queue_embed();
+      else item._queue_embed = true;
+      collections.add(collection);
+      found.push(key);
+    }
 
-function registerLmStudioProvider(sc: any, env: any, settings: Settings) {
-  const providers = findProvidersRegistry(env);
-  if (!providers) throw new Error("Smart Connections providers registry missing");
-
-  const keys = Object.keys(providers);
-  let targetKey =
-    keys.find((k) => k === "lm_studio" || k === "lmstudio" || k === "lm-studio") ??
-    keys.find((k) => /studio/i.test(k)) ??
-    null;
-
-  if (!targetKey) {
-    for (const [k, v] of Object.entries(providers)) {
-      const name = String((v as any)?.name ?? (v as any)?.label ?? "").toLowerCase();
-      if (name.includes("lm studio")) {
-        targetKey = k;
-        break;
-      }
+    clearFailures(found);
+    for (const collection of collections) {
+      Promise.resolve(collection.process_embed_queue?.()).catch((err) =>
+        console.warn("[LM Studio Embeddings] failed to process embed queue", err)
+      );
     }
+    return found.length;
   }
 
-  // Patch in-place so an existing (often PRO/disabled) dropdown entry becomes usable.
-  targetKey = targetKey ?? "lm_studio";
-
-  const existing = (providers as any)[targetKey];
-  if (existing?.class === LmStudioEmbeddingAdapter) return;
-
-  // IMPORTANT: Use the transformers provider as a UI template so the model modal keeps
-  // the same controls (New/Delete/Test + any test input fields).
-  const transformersTemplate = (providers as any).transformers ?? Object.values(providers)[0] ?? {};
-  const batchSize = settings?.batchSize ?? DEFAULT_SETTINGS.batchSize;
-
-  const providerConfig = {
-    ...transformersTemplate,
-    ...(existing ?? {}),
-
-    id: targetKey,
-    name: "LM Studio",
-    label: "LM Studio",
-    description: "local, requires LM Studio app",
-    adapter: "lm_studio",
-    adapter_key: "lm_studio",
-    adapterKey: "lm_studio",
-    batch_size: batchSize,
-    max_batch_size: batchSize,
-
-    // These flags control whether SC marks the provider as PRO/disabled in some versions.
-    pro: false,
-    is_pro: false,
-    isPro: false,
-    requires_pro: false,
-    requiresPro: false,
-    available: true,
-    enabled: true,
-
-    class: LmStudioEmbeddingAdapter
-  };
-
-  // Register under all known keys for maximum compatibility
-  for (const key of ADAPTER_KEYS) {
-    (providers as any)[key] = providerConfig;
+  /** Queue every source and block for embedding again. */
+  async requeueAll() {
+    const env = findSmartConnectionsPlugin(this.app)?.env;
+    if (!env) throw new Error("Smart Connections is not loaded");
+    const keys = [env.smart_sources, env.smart_blocks].flatMap((collection) => Object.keys(collection?.items ?? {}));
+    return this.requeueItems(keys);
   }
 
-  // Some versions keep an additional registry under env.embedding_models.providers
-  try {
-    const alt = env?.embedding_models?.providers;
-    if (isRecord(alt)) {
-      for (const key of ADAPTER_KEYS) {
-        (alt as any)[key] = providerConfig;
-      }
+  private async handleModelChange(change: ModelChange, choice: ModelChangeChoice) {
+    change.accept();
+    if (choice === "ignore") return;
+    if (choice === "new_key") {
+      const key = modelOverrideKey(change.backend, change.modelId);
+      const override = this.settings.modelOverrides[key] ?? {};
+      this.settings.modelOverrides = {
+        ...this.settings.modelOverrides,
+        [key]: { ...override, keyVariant: change.current.digest }
+      };
+      await this.saveSettings();
+    } else if (this.cache) {
+      // Cached vectors are from the old model.
+      this.cache.purgeModel(embeddingKeyFor(change.backend, change.modelId));
+      await this.cache.flush();
     }
-  } catch {
-    // ignore
+    const queued = await this.requeueAll();
+    new Notice(`LM Studio Embeddings: queued ${queued} items for embedding with the changed ${change.modelId}`);
   }
 
-  // CRITICAL: Register the adapter CLASS in adapter registries.
-  // This is what Smart Connections uses to instantiate the adapter when loading embeddings.
-  // Without this, SC won't be able to load the adapter and will treat items as unembedded.
-  registerAdapterClass(env);
+  openDiagnostics() {
+    new DiagnosticsModal(this.app, () => {
+      const sc = findSmartConnectionsPlugin(this.app);
+      return runDiagnostics(selectedModel(sc?.env), registrationChecks(sc));
+    }).open();
+  }
 
-  // Note: We intentionally do NOT emit providers-updated events here.
-  // Those events can trigger model:changed notifications which confuse users.
-  // The adapter registration itself is sufficient for SC to recognize LM Studio.
-}
+  openRequestLog() {
+    new RequestLogModal(this.app, () => this.exportRequestLog()).open();
+  }
 
-/**
- * Register the LmStudioEmbeddingAdapter class in all adapter registries that Smart Connections
- * might use to look up adapter classes by key. This is essential for SC to recognize
- * existing embeddings on restart.
- */
-function registerAdapterClass(env: any) {
-  // Various places SC might store adapter classes
-  const registries = [
-    env?.embedding_models?.adapters,
-    env?.embedding_models?.adapter_classes,
-    env?.embedding_models?.adapterClasses,
-    env?.embedding_models?.adapter_registry,
-    env?.embedding_models?.adapterRegistry,
-    env?.embedding_models?.embedding_adapters,
-    env?.embedding_models?.embeddingAdapters,
-    env?.config?.modules?.smart_embed_model?.adapters,
-    env?.config?.embedding_models?.adapters,
-    // Direct on embed model
-    env?.smart_sources?.embed_model?.adapters,
-    env?.smart_blocks?.embed_model?.adapters,
-  ];
-
-  for (const reg of registries) {
-    if (!isRecord(reg)) continue;
-    for (const key of ADAPTER_KEYS) {
-      (reg as any)[key] = LmStudioEmbeddingAdapter;
+  /** Write the request log as JSON to the vault root, where it is easy to attach to a bug report. */
+  async exportRequestLog() {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const path = `lmstudio-embeddings-request-log-${stamp}.json`;
+    try {
+      await this.app.vault.adapter.write(path, exportRequestLog(this.manifest?.version));
+      new Notice(`LM Studio Embeddings: request log exported to ${path}`);
+    } catch (err: any) {
+      new Notice(`LM Studio Embeddings: failed to export the request log (${err?.message ?? err})`);
     }
   }
 
-  // Also try to register on the SmartEmbedModel class if available
-  try {
-    const SmartEmbedModel = env?.config?.modules?.smart_embed_model?.class;
-    if (SmartEmbedModel?.adapters && isRecord(SmartEmbedModel.adapters)) {
-      for (const key of ADAPTER_KEYS) {
-        SmartEmbedModel.adapters[key] = LmStudioEmbeddingAdapter;
+  /** The model Smart Connections embeds with and the key its vectors are stored under. */
+  private currentEmbedKey() {
+    const env = findSmartConnectionsPlugin(this.app)?.env;
+    const selected = selectedModel(env);
+    if (!selected) return null;
+    const scKey = env?.smart_sources?.embed_model_key;
+    const embedKey = typeof scKey === "string" && scKey ? scKey : scEmbedKey(selected.backend, selected.modelId);
+    return { env, embedKey, ...selected };
+  }
+
+  private readVaultFile = async (path: string) => {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? this.app.vault.cachedRead(file) : null;
+  };
+
+  /** Write every current vector of the model in use to the vault root. */
+  async exportEmbeddings(format: ExportFormat) {
+    const current = this.currentEmbedKey();
+    if (!current) {
+      new Notice("LM Studio Embeddings: Smart Connections is not using one of this plugin's models");
+      return;
+    }
+    try {
+      const { vectors, stale } = await collectVectors(current.env, current.embedKey, this.readVaultFile);
+      if (!vectors.length) {
+        new Notice(`LM Studio Embeddings: no embeddings stored for ${current.embedKey}`);
+        return;
       }
+      const data = buildExport(
+        {
+          embedKey: current.embedKey,
+          backend: current.backend,
+          model: current.modelId,
+          prefixes: prefixTemplatesFor(current.backend, current.modelId)
+        },
+        vectors
+      );
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const base = `lmstudio-embeddings-${current.modelId.replace(/[^a-z0-9._-]+/gi, "_")}-${stamp}`;
+      const path = format === "jsonl" ? `${base}.jsonl` : `${base}.bin`;
+      if (format === "jsonl") await this.app.vault.adapter.write(path, encodeJsonl(data));
+      else await this.app.vault.adapter.writeBinary(path, encodeBinary(data));
+      const skipped = stale ? ` (${stale} outdated or unreadable items skipped)` : "";
+      new Notice(`LM Studio Embeddings: exported ${data.vectors.length} embeddings to ${path}${skipped}`);
+    } catch (err: any) {
+      new Notice(`LM Studio Embeddings: failed to export embeddings (${err?.message ?? err})`);
     }
-  } catch {
-    // ignore
   }
-}
-
 
-export default class SmartConnectionsLmStudioEmbeddings extends Plugin {
-  settings: Settings = DEFAULT_SETTINGS;
-  private bootstrapped = false;
-  private registrationInterval: number | null = null;
+  openMigrationAssistant() {
+    new MigrationModal(this.app, {
+      env: () => findSmartConnectionsPlugin(this.app)?.env ?? null,
+      activeKey: () => this.currentEmbedKey()?.embedKey ?? null,
+      targets: async () => {
+        const lists = await Promise.all(
+          configuredBackends().map(async (backend) => {
+            const models = await listModels(false, backend).catch(() => ({}));
+            return Object.keys(models).map((modelId) => ({ backend, modelId, embedKey: scEmbedKey(backend, modelId) }));
+          })
+        );
+        return lists.flat();
+      },
+      thresholdPercent: () => this.settings.migrationThresholdPercent,
+      start: (target) => this.startMigration(target)
+    }).open();
+  }
 
-  async onload() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-    this.applySettings();
-    this.addSettingTab(new LmStudioSettingsTab(this.app, this));
+  /**
+   * Embed the vault with `target` in the background, throttled, while Smart Connections
+   * keeps searching with its current model; tell the user when the new index is ready.
+   */
+  startMigration(target: MigrationTarget) {
+    const env = findSmartConnectionsPlugin(this.app)?.env;
+    if (!env) {
+      new Notice("LM Studio Embeddings: Smart Connections is not loaded");
+      return;
+    }
+    const options = {
+      batchItems: this.settings.migrationBatchItems,
+      delayMs: this.settings.migrationDelayMs,
+      thresholdPercent: this.settings.migrationThresholdPercent
+    };
+    void runMigration(env, target, options, this.readVaultFile, () =>
+      new Notice(
+        `LM Studio Embeddings: ${target.modelId} covers ${options.thresholdPercent}% of the vault. ` +
+          "Switch to it from the migration assistant.",
+        0
+      )
+    );
+  }
 
-    new Notice(`LM Studio Embeddings loaded (v${this.manifest?.version ?? "unknown"})`);
+  /** Let the user pick an export file from disk and import it. */
+  pickEmbeddingsImport() {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".jsonl,.bin";
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (file) await this.importEmbeddings(await file.arrayBuffer());
+    };
+    input.click();
+  }
 
-    // Try to register immediately - this may catch SC if it's already loaded
-    this.tryEarlyRegistration();
-    
-    // Set up a short polling interval to catch SC as early as possible
-    // This is critical for preventing re-embedding on restart
-    this.registrationInterval = window.setInterval(() => {
-      if (this.bootstrapped) {
-        if (this.registrationInterval) {
-          window.clearInterval(this.registrationInterval);
-          this.registrationInterval = null;
-        }
+  /**
+   * Attach exported vectors to the sources and blocks whose text is unchanged. Only
+   * exports for the embed key in use are accepted; other vectors would be mixed into
+   * an index they don't belong to.
+   */
+  async importEmbeddings(buffer: ArrayBuffer) {
+    const current = this.currentEmbedKey();
+    if (!current) {
+      new Notice("LM Studio Embeddings: Smart Connections is not using one of this plugin's models");
+      return;
+    }
+    try {
+      const data = decodeExport(buffer);
+      if (data.header.embedKey !== current.embedKey) {
+        new Notice(
+          `LM Studio Embeddings: the export is for ${data.header.embedKey}, but Smart Connections uses ${current.embedKey}`
+        );
         return;
       }
-      this.tryEarlyRegistration();
-    }, 200);
+      const result = await attachVectors(current.env, current.embedKey, data, this.readVaultFile);
+      new Notice(
+        `LM Studio Embeddings: imported ${result.attached} embeddings; ` +
+          `${result.changed} changed and ${result.missing} missing items will be embedded normally`
+      );
+    } catch (err: any) {
+      new Notice(`LM Studio Embeddings: failed to import embeddings (${err?.message ?? err})`);
+    }
+  }
 
-    // Also try on layout ready
-    this.app.workspace.onLayoutReady(() => {
-      this.bootstrap().catch((err) => console.warn("[LM Studio Embeddings] bootstrap failed", err));
-    });
-    
-    // Fallback: full bootstrap with longer timeout
-    this.bootstrap().catch((err) => console.warn("[LM Studio Embeddings] bootstrap failed", err));
+  private initStatusBar() {
+    const el = this.addStatusBarItem();
+    el.addClass("mod-clickable");
+    el.onClickEvent(() => this.openDiagnostics());
+    const update = () => {
+      const activity = getActivity();
+      const rate = activity.itemsPerSecond !== null ? ` (${activity.itemsPerSecond.toFixed(1)}/s)` : "";
+      const labels = { idle: "idle", embedding: `embedding${rate}`, error: "error", offline: "server offline" };
+      el.setText(`LM Studio: ${labels[activity.state]}`);
+      el.setAttr("aria-label", activity.error ?? "Click to run diagnostics");
+    };
+    this.register(onActivityChanged(update));
+    update();
   }
 
-  onunload() {
-    if (this.registrationInterval) {
-      window.clearInterval(this.registrationInterval);
-      this.registrationInterval = null;
-    }
+  private pluginDir() {
+    return this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+  }
+
+  /**
+   * The cache loads in the background; registration with Smart Connections must not wait
+   * for it. Until it is loaded, requests simply bypass it.
+   */
+  private initCache() {
+    const adapter = this.app.vault.adapter;
+    const path = `${this.pluginDir()}/embedding-cache.json`;
+    const cache = new EmbeddingCache(
+      {
+        read: async () => ((await adapter.exists(path)) ? adapter.read(path) : null),
+        write: (data) => adapter.write(path, data),
+        append: (data) => adapter.append(path, data)
+      },
+      () => this.settings.cacheMaxMb * 1024 * 1024
+    );
+    this.cache = cache;
+    cache
+      .load()
+      .then(() => {
+        if (this.cache === cache) setEmbeddingCache(cache);
+      })
+      .catch((err) => console.warn("[LM Studio Embeddings] failed to load embedding cache", err));
   }
 
   /**
-   * Try to register the adapter as early as possible, before SC initializes entities.
-   * This is non-blocking and won't throw errors if SC isn't ready yet.
+   * Make sure our providers and adapter classes are in Smart Connections' registries,
+   * registering (again) if they are missing. Cheap when nothing changed, so it can run on
+   * every event and on a relaxed timer. Returns false while Smart Connections isn't ready.
    */
-  private tryEarlyRegistration() {
+  private ensureRegistered() {
+    const sc = findSmartConnectionsPlugin(this.app);
+    if (sc !== this.watchedSc) this.watchEnv(sc);
+    if (!sc?.env || !findProvidersRegistry(sc)) return false;
+    if (isRegistered(sc)) return true;
+
     try {
-      const sc = findSmartConnectionsPlugin(this.app);
-      if (!sc) return false;
-      
-      const env = sc?.env;
-      if (!env) return false;
-
-      const providers = findProvidersRegistry(env);
-      if (!providers) return false;
-      
-      // SC is available - register immediately
-      // Note: registerLmStudioProvider already calls registerAdapterClass internally
-      registerLmStudioProvider(sc, env, this.settings);
-      
-      console.log("[LM Studio Embeddings] Early registration successful");
-      this.bootstrapped = true;
-      
-      if (this.registrationInterval) {
-        window.clearInterval(this.registrationInterval);
-        this.registrationInterval = null;
-      }
-      
-      // Warm model list in background
-      listModels(true).catch((err) => 
-        console.warn("[LM Studio Embeddings] Failed to list models", err)
-      );
-      
-      return true;
+      // registerProviders also registers the adapter classes.
+      registerProviders(sc, this.settings.batchSize);
     } catch (err) {
-      // Silently fail - we'll retry
+      console.warn("[LM Studio Embeddings] failed to register providers", err);
       return false;
     }
+
+    if (this.bootstrapped) {
+      console.log("[LM Studio Embeddings] Smart Connections registries changed; registered again");
+      return true;
+    }
+    this.bootstrapped = true;
+    console.log("[LM Studio Embeddings] provider registered");
+    new Notice("LM Studio Embeddings: provider registered");
+    // Warm model list so dropdown has options immediately.
+    listModels(true).catch((err) => console.warn("[LM Studio Embeddings] Failed to list models", err));
+    return true;
+  }
+
+  /**
+   * Register now, or wait until Smart Connections has created its env and registries,
+   * checking less and less often. Runs only after a plugin load or env assignment, and
+   * stops once registered; only one wait runs at a time.
+   */
+  private scheduleRegistration() {
+    if (this.ensureRegistered() || this.registrationTimer !== null) return;
+    const started = Date.now();
+    const check = (delay: number) => {
+      this.registrationTimer = window.setTimeout(() => {
+        this.registrationTimer = null;
+        if (this.ensureRegistered()) return;
+        if (Date.now() - started > REGISTRATION_WAIT_MS) {
+          console.warn("[LM Studio Embeddings] Timed out waiting for Smart Connections env");
+          return;
+        }
+        check(Math.min(REGISTRATION_MAX_CHECK_MS, delay * 2));
+      }, delay);
+    };
+    check(REGISTRATION_FIRST_CHECK_MS);
+  }
+
+  /**
+   * Check now and then that our registrations are still in place, for registries replaced
+   * where no hook sees it (an env behind a getter, registries rebuilt inside an env).
+   * When they go missing again right after registering, the checks back off.
+   */
+  private watchRegistries(delay = REGISTRY_WATCH_MS) {
+    this.registryWatchTimer = window.setTimeout(() => {
+      const sc = findSmartConnectionsPlugin(this.app);
+      const missing = !!sc?.env && !!findProvidersRegistry(sc) && !isRegistered(sc);
+      if (missing) this.ensureRegistered();
+      this.watchRegistries(missing ? Math.min(REGISTRY_WATCH_MAX_MS, delay * 2) : REGISTRY_WATCH_MS);
+    }, delay);
+  }
+
+  private stopRegistrationPolling() {
+    if (this.registrationTimer !== null) {
+      window.clearTimeout(this.registrationTimer);
+      this.registrationTimer = null;
+    }
+  }
+
+  /** Follow `env` assignments on this Smart Connections instance (and stop following the last one). */
+  private watchEnv(sc: any) {
+    this.unwatchEnv();
+    this.watchedSc = sc;
+    this.unwatchEnv = onEnvAssigned(sc, () => this.scheduleRegistration());
   }
 
   private applySettings() {
     setLmStudioSettings({
-      baseUrl: this.settings.baseUrl,
-      apiKey: this.settings.apiKey,
+      endpoints: this.settings.endpoints,
+      loadBalancing: this.settings.loadBalancing,
       requestTimeoutMs: this.settings.requestTimeoutMs,
       maxTokens: this.settings.maxTokens,
-      batchSize: this.settings.batchSize
+      batchSize: this.settings.batchSize,
+      modelAllowPattern: this.settings.modelAllowPattern,
+      modelDenyPattern: this.settings.modelDenyPattern,
+      truncationStrategy: this.settings.truncationStrategy,
+      chunkOverlapTokens: this.settings.chunkOverlapTokens,
+      poolingMode: this.settings.poolingMode,
+      prefixPresets: this.settings.prefixPresets,
+      modelOverrides: this.settings.modelOverrides,
+      maxRetries: this.settings.maxRetries,
+      retryBaseDelayMs: this.settings.retryBaseDelayMs,
+      circuitBreakerThreshold: this.settings.circuitBreakerThreshold,
+      circuitBreakerCooldownMs: this.settings.circuitBreakerCooldownMs,
+      cacheEnabled: this.settings.cacheEnabled,
+      concurrency: this.settings.concurrency,
+      adaptiveBatching: this.settings.adaptiveBatching,
+      adaptiveTargetLatencyMs: this.settings.adaptiveTargetLatencyMs,
+      maxBatchSize: this.settings.maxBatchSize,
+      maxBatchTokens: this.settings.maxBatchTokens,
+      failureMode: this.settings.failureMode,
+      autoLoadModel: this.settings.autoLoadModel,
+      modelLoadTimeoutMs: this.settings.modelLoadTimeoutMs,
+      warmUpModel: this.settings.warmUpModel,
+      keepAliveMinutes: this.settings.keepAliveMinutes,
+      fingerprintModels: this.settings.fingerprintModels,
+      preprocessing: this.settings.preprocessing
+    });
+    configureRequestLog({
+      enabled: this.settings.requestLog,
+      maxEntries: this.settings.requestLogSize,
+      hashInputs: this.settings.requestLogHashInputs
+    });
+    configureOfflineServer({
+      dimensions: this.settings.offlineDimensions,
+      countMismatchPercent: this.settings.offlineCountMismatchPercent,
+      timeoutPercent: this.settings.offlineTimeoutPercent,
+      httpErrorPercent: this.settings.offlineHttpErrorPercent,
+      httpErrorStatus: this.settings.offlineHttpErrorStatus
     });
   }
 
   async saveSettings() {
     await this.saveData(this.settings);
     this.applySettings();
+    // A backend that just got its first endpoint needs a provider entry in Smart Connections.
+    if (this.bootstrapped) this.ensureRegistered();
   }
+}
 
-  private async bootstrap() {
-    if (this.bootstrapped) return;
-    const { sc, env } = await waitForSmartConnectionsEnv(this.app, 120_000);
-    registerLmStudioProvider(sc, env, this.settings);
-
-    // Warm model list so dropdown has options immediately.
-    try {
-      await listModels(true);
-    } catch (err) {
-      console.warn("[LM Studio Embeddings] Failed to list models", err);
-    }
+function healthColor(h: EndpointHealth | undefined) {
+  if (!h || !h.enabled || h.healthy === null) return "var(--text-muted)";
+  if (h.paused) return "var(--color-orange)";
+  return h.healthy ? "var(--color-green)" : "var(--color-red)";
+}
 
-    this.bootstrapped = true;
-    new Notice("LM Studio Embeddings: provider registered");
+function describeHealth(h: EndpointHealth | undefined, embeddingModels: string[]) {
+  if (!h) return "Not checked yet.";
+  if (!h.enabled) return "Disabled.";
+  const parts: string[] = [];
+  if (h.healthy === null) parts.push("Not contacted yet.");
+  else if (h.paused) parts.push(`Paused after repeated failures: ${h.lastError ?? "unknown error"}`);
+  else if (h.healthy) parts.push(`Healthy${h.latencyMs !== null ? `, ~${h.latencyMs} ms` : ""}.`);
+  else parts.push(`Unreachable: ${h.lastError ?? "unknown error"}`);
+  if (h.models) {
+    const missing = embeddingModels.filter((id) => !h.models!.includes(id));
+    if (missing.length) parts.push(`Missing models: ${missing.join(", ")}.`);
   }
+  return parts.join(" ");
 }
 
 class LmStudioSettingsTab extends PluginSettingTab {
   plugin: SmartConnectionsLmStudioEmbeddings;
+  private knownModels: Partial<Record<BackendId, Record<string, unknown>>> = {};
 
   constructor(app: App, plugin: SmartConnectionsLmStudioEmbeddings) {
     super(app, plugin);
@@ -324,39 +724,61 @@ class LmStudioSettingsTab extends PluginSettingTab {
     const { containerEl } = this;
     containerEl.empty();
 
+    this.displayEndpointSettings(containerEl);
+
     new Setting(containerEl)
-      .setName("LM Studio base URL")
-      .setDesc("Example: http://127.0.0.1:1234")
+      .setName("Request timeout (ms)")
       .addText((text) =>
-        text
-          .setPlaceholder(DEFAULT_SETTINGS.baseUrl)
-          .setValue(this.plugin.settings.baseUrl)
-          .onChange(async (value) => {
-            this.plugin.settings.baseUrl = value.trim() || DEFAULT_SETTINGS.baseUrl;
-            await this.plugin.saveSettings();
-          })
+        text.setValue(String(this.plugin.settings.requestTimeoutMs)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.requestTimeoutMs = Number.isFinite(n) ? Math.max(5_000, n) : DEFAULT_SETTINGS.requestTimeoutMs;
+          await this.plugin.saveSettings();
+        })
       );
 
     new Setting(containerEl)
-      .setName("LM Studio API key")
-      .setDesc("Optional. Sent as an Authorization: Bearer header.")
-      .addText((text) => {
-        text
-          .setPlaceholder("Optional")
-          .setValue(this.plugin.settings.apiKey)
-          .onChange(async (value) => {
-            this.plugin.settings.apiKey = value.trim();
-            await this.plugin.saveSettings();
-          });
-        text.inputEl.type = "password";
-      });
+      .setName("Retries")
+      .setDesc("How often to retry requests that fail with a network error, timeout, 429 or 5xx.")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.maxRetries)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.maxRetries = Number.isFinite(n) ? Math.max(0, Math.floor(n)) : DEFAULT_SETTINGS.maxRetries;
+          await this.plugin.saveSettings();
+        })
+      );
 
     new Setting(containerEl)
-      .setName("Request timeout (ms)")
+      .setName("Retry base delay (ms)")
+      .setDesc("First retry waits about this long; each further retry doubles it. Retry-After from the server takes precedence.")
       .addText((text) =>
-        text.setValue(String(this.plugin.settings.requestTimeoutMs)).onChange(async (value) => {
+        text.setValue(String(this.plugin.settings.retryBaseDelayMs)).onChange(async (value) => {
           const n = Number(value);
-          this.plugin.settings.requestTimeoutMs = Number.isFinite(n) ? Math.max(5_000, n) : DEFAULT_SETTINGS.requestTimeoutMs;
+          this.plugin.settings.retryBaseDelayMs = Number.isFinite(n) ? Math.max(50, n) : DEFAULT_SETTINGS.retryBaseDelayMs;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Pause after failed requests")
+      .setDesc("After this many requests in a row fail (after retries), stop contacting LM Studio for a while. 0 disables.")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.circuitBreakerThreshold)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.circuitBreakerThreshold = Number.isFinite(n)
+            ? Math.max(0, Math.floor(n))
+            : DEFAULT_SETTINGS.circuitBreakerThreshold;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Pause duration (ms)")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.circuitBreakerCooldownMs)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.circuitBreakerCooldownMs = Number.isFinite(n)
+            ? Math.max(1_000, n)
+            : DEFAULT_SETTINGS.circuitBreakerCooldownMs;
           await this.plugin.saveSettings();
         })
       );
@@ -371,6 +793,48 @@ class LmStudioSettingsTab extends PluginSettingTab {
         })
       );
 
+    new Setting(containerEl)
+      .setName("Long inputs")
+      .setDesc("What to do with inputs over the model's token limit (or the default max tokens if the model reports none).")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({
+            head: "Keep the beginning",
+            head_tail: "Keep beginning and end",
+            chunk_pool: "Split into windows and pool",
+            none: "Send as is (server decides)"
+          })
+          .setValue(this.plugin.settings.truncationStrategy)
+          .onChange(async (value) => {
+            this.plugin.settings.truncationStrategy = value as TruncationStrategy;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Window overlap (tokens)")
+      .setDesc("Only used when splitting into windows.")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.chunkOverlapTokens)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.chunkOverlapTokens = Number.isFinite(n) ? Math.max(0, n) : DEFAULT_SETTINGS.chunkOverlapTokens;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Window pooling")
+      .setDesc("How window vectors are combined into one vector per note.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ weighted: "Weighted mean (by tokens)", mean: "Mean" })
+          .setValue(this.plugin.settings.poolingMode)
+          .onChange(async (value) => {
+            this.plugin.settings.poolingMode = value as PoolingMode;
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl)
       .setName("Default batch size")
       .addText((text) =>
@@ -381,18 +845,791 @@ class LmStudioSettingsTab extends PluginSettingTab {
         })
       );
 
+    new Setting(containerEl)
+      .setName("Parallel requests")
+      .setDesc("How many embedding requests may be in flight at once.")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.concurrency)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.concurrency = Number.isFinite(n) ? Math.max(1, Math.floor(n)) : DEFAULT_SETTINGS.concurrency;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Adaptive batch size")
+      .setDesc(
+        "Grow or shrink the batch size from measured latency, and halve it when LM Studio rejects a batch as too large " +
+          "or times out. The tuned size is saved per model."
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.adaptiveBatching).onChange(async (value) => {
+          this.plugin.settings.adaptiveBatching = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Adaptive target latency (ms)")
+      .setDesc("Batches much faster than this grow; much slower ones shrink.")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.adaptiveTargetLatencyMs)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.adaptiveTargetLatencyMs = Number.isFinite(n)
+            ? Math.max(100, n)
+            : DEFAULT_SETTINGS.adaptiveTargetLatencyMs;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Maximum batch size")
+      .setDesc("Upper bound for adaptive batch sizing.")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.maxBatchSize)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.maxBatchSize = Number.isFinite(n) ? Math.max(1, Math.floor(n)) : DEFAULT_SETTINGS.maxBatchSize;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Tokens per request")
+      .setDesc(
+        "Inputs are sorted by length and packed into requests of similar-length inputs up to this many (estimated) " +
+          "tokens, so short blocks don't wait for long notes. Identical inputs are embedded once. 0 = no token limit."
+      )
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.maxBatchTokens)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.maxBatchTokens = Number.isFinite(n) ? Math.max(0, Math.floor(n)) : DEFAULT_SETTINGS.maxBatchTokens;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("When an input fails to embed")
+      .setDesc(
+        "Report per item: only the failed items stay unembedded and are retried later. Fail the batch: Smart Connections " +
+          "keeps the whole batch queued. Zero vector: legacy behavior, marks the item embedded with a meaningless vector. " +
+          "Failed items are listed by the \"Show failed embeddings\" command."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ item_errors: "Report per item", throw: "Fail the batch", pad: "Zero vector (not recommended)" })
+          .setValue(this.plugin.settings.failureMode)
+          .onChange(async (value) => {
+            this.plugin.settings.failureMode = value as FailureMode;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Always include models matching")
+      .setDesc("Optional regex. Matching model ids are listed even if LM Studio doesn't report them as embedding models.")
+      .addText((text) =>
+        text
+          .setPlaceholder("e.g. my-custom-embedder")
+          .setValue(this.plugin.settings.modelAllowPattern)
+          .onChange(async (value) => {
+            this.plugin.settings.modelAllowPattern = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Never include models matching")
+      .setDesc("Optional regex. Matching model ids are hidden from the model list.")
+      .addText((text) =>
+        text
+          .setPlaceholder("e.g. rerank")
+          .setValue(this.plugin.settings.modelDenyPattern)
+          .onChange(async (value) => {
+            this.plugin.settings.modelDenyPattern = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl)
       .setName("Reload model list")
-      .setDesc("Fetches available models from LM Studio (GET /v1/models).")
+      .setDesc("Fetches embedding models from every configured server (for LM Studio: GET /api/v0/models, falling back to /v1/models).")
       .addButton((btn) => {
         btn.setButtonText("Fetch").onClick(async () => {
-          try {
-            await listModels(true);
-            new Notice("LM Studio Embeddings: model list refreshed");
-          } catch (err: any) {
-            new Notice(`LM Studio Embeddings: failed to fetch models (${err?.message ?? err})`);
-          }
+          if (await this.refreshKnownModels()) new Notice("LM Studio Embeddings: model list refreshed");
+          this.display();
         });
       });
+
+    this.displayModelLoadingSettings(containerEl);
+    this.displayFingerprintSetting(containerEl);
+    this.displayPrefixSettings(containerEl);
+    this.displayPreprocessingSettings(containerEl);
+    this.displayModelOverrideSettings(containerEl);
+    this.displayCacheSettings(containerEl);
+    this.displayRequestLogSettings(containerEl);
+    this.displayOfflineSettings(containerEl);
+    this.displayMigrationSettings(containerEl);
+  }
+
+  private displayCacheSettings(containerEl: HTMLElement) {
+    new Setting(containerEl).setName("Embedding cache").setHeading();
+
+    new Setting(containerEl)
+      .setName("Cache embeddings on disk")
+      .setDesc("Re-embedding text that was embedded before (after a reset or rebuild) is served from the cache instead of LM Studio.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.cacheEnabled).onChange(async (value) => {
+          this.plugin.settings.cacheEnabled = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Cache size limit (MB)")
+      .setDesc("Least recently used entries are evicted beyond this size.")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.cacheMaxMb)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.cacheMaxMb = Number.isFinite(n) ? Math.max(1, n) : DEFAULT_SETTINGS.cacheMaxMb;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    const cache = this.plugin.cache;
+    if (!cache) return;
+    const stats = cache.getStats();
+    const lookups = stats.hits + stats.misses;
+    const hitRate = lookups ? `${Math.round((stats.hits / lookups) * 100)}%` : "n/a";
+
+    new Setting(containerEl)
+      .setName("Cache statistics")
+      .setDesc(
+        `${stats.entries} entries, ${(stats.bytes / 1024 / 1024).toFixed(1)} MB. ` +
+          `This session: ${stats.hits} hits, ${stats.misses} misses (hit rate ${hitRate}).`
+      )
+      .addButton((btn) =>
+        btn.setButtonText("Clear cache").onClick(async () => {
+          cache.clear();
+          await cache.flush();
+          new Notice("LM Studio Embeddings: embedding cache cleared");
+          this.display();
+        })
+      );
+
+    for (const [model, count] of Object.entries(stats.models)) {
+      new Setting(containerEl)
+        .setName(model)
+        .setDesc(`${count} cached embeddings`)
+        .addButton((btn) =>
+          btn.setButtonText("Purge").onClick(async () => {
+            const removed = cache.purgeModel(model);
+            await cache.flush();
+            new Notice(`LM Studio Embeddings: removed ${removed} cached embeddings for ${model}`);
+            this.display();
+          })
+        );
+    }
+  }
+
+  private displayRequestLogSettings(containerEl: HTMLElement) {
+    new Setting(containerEl).setName("Request log").setHeading();
+
+    new Setting(containerEl)
+      .setName("Log requests")
+      .setDesc(
+        "Keep the most recent requests (endpoint, model, batch size, status, latency, dims and errors) in memory for " +
+          "bug reports. API keys are never logged."
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.requestLog).onChange(async (value) => {
+          this.plugin.settings.requestLog = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Requests to keep")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.requestLogSize)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.requestLogSize = Number.isFinite(n)
+            ? Math.max(10, Math.floor(n))
+            : DEFAULT_SETTINGS.requestLogSize;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Hash input texts")
+      .setDesc("Log a hash of each input instead of its first 200 characters, so the log doesn't contain note text.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.requestLogHashInputs).onChange(async (value) => {
+          this.plugin.settings.requestLogHashInputs = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Logged requests")
+      .setDesc("Export writes the log as JSON to the root of the vault.")
+      .addButton((btn) => btn.setButtonText("Show").onClick(() => this.plugin.openRequestLog()))
+      .addButton((btn) => btn.setButtonText("Export").onClick(() => void this.plugin.exportRequestLog()));
+  }
+
+  private displayOfflineSettings(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Offline backend")
+      .setDesc(
+        "Add an endpoint of type \"Offline\" to get a provider that embeds without any server: deterministic vectors " +
+          "from hashed character n-grams. Useful for testing a vault setup, or on machines without LM Studio. " +
+          "The faults below let you exercise the retry and recovery paths."
+      )
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName("Dimensions")
+      .setDesc("Vector length of the offline model. The model id includes it, so changing it starts a new embedding key.")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.offlineDimensions)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.offlineDimensions = Number.isFinite(n)
+            ? Math.min(8192, Math.max(8, Math.floor(n)))
+            : DEFAULT_SETTINGS.offlineDimensions;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    type FaultKey = "offlineCountMismatchPercent" | "offlineTimeoutPercent" | "offlineHttpErrorPercent";
+    const percent = (name: string, desc: string, key: FaultKey) =>
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addText((text) =>
+          text.setValue(String(this.plugin.settings[key])).onChange(async (value) => {
+            const n = Number(value);
+            this.plugin.settings[key] = Number.isFinite(n) ? Math.min(100, Math.max(0, n)) : DEFAULT_SETTINGS[key];
+            await this.plugin.saveSettings();
+          })
+        );
+    percent("Count mismatch (%)", "Share of embedding responses that leave out the last vector.", "offlineCountMismatchPercent");
+    percent("Timeouts (%)", "Share of embedding requests that never answer and run into the request timeout.", "offlineTimeoutPercent");
+    percent("HTTP errors (%)", "Share of embedding requests that fail with the status below.", "offlineHttpErrorPercent");
+
+    new Setting(containerEl)
+      .setName("HTTP error status")
+      .setDesc("e.g. 500 or 429 (retried), 400 (retried per item), 413 (batch split).")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.offlineHttpErrorStatus)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.offlineHttpErrorStatus =
+            Number.isInteger(n) && n >= 400 && n <= 599 ? n : DEFAULT_SETTINGS.offlineHttpErrorStatus;
+          await this.plugin.saveSettings();
+        })
+      );
+  }
+
+  private displayMigrationSettings(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Model migration")
+      .setDesc(
+        "Embed the vault with a new model in the background while Smart Connections keeps searching with the current " +
+          "one, and remove vectors of models you no longer use."
+      )
+      .setHeading()
+      .addButton((btn) => btn.setButtonText("Open assistant").onClick(() => this.plugin.openMigrationAssistant()));
+
+    new Setting(containerEl)
+      .setName("Items per step")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.migrationBatchItems)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.migrationBatchItems = Number.isFinite(n)
+            ? Math.min(256, Math.max(1, Math.floor(n)))
+            : DEFAULT_SETTINGS.migrationBatchItems;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Pause between steps (ms)")
+      .setDesc("Keeps the migration from competing with normal embedding and search.")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.migrationDelayMs)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.migrationDelayMs = Number.isFinite(n)
+            ? Math.max(0, Math.floor(n))
+            : DEFAULT_SETTINGS.migrationDelayMs;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Ready at coverage (%)")
+      .setDesc("Share of notes and blocks the new model must cover before the assistant offers to switch to it.")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.migrationThresholdPercent)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.migrationThresholdPercent = Number.isFinite(n)
+            ? Math.min(100, Math.max(1, n))
+            : DEFAULT_SETTINGS.migrationThresholdPercent;
+          await this.plugin.saveSettings();
+        })
+      );
+  }
+
+  private displayEndpointSettings(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Endpoints")
+      .setDesc(
+        "Example: http://127.0.0.1:1234. The API key is optional and sent as an Authorization: Bearer header. " +
+          "Requests are spread over healthy endpoints that serve the selected model, and fail over when one drops. " +
+          "Ollama, llama.cpp, TEI and offline endpoints show up as separate providers in Smart Connections."
+      )
+      .setHeading();
+
+    const health = new Map(getEndpointHealth().map((h) => [`${h.backend} ${h.url}`, h]));
+
+    this.plugin.settings.endpoints.forEach((endpoint, index) => {
+      const h = health.get(`${endpoint.backend ?? "lmstudio"} ${normalizeBaseUrl(endpoint.url)}`);
+      const embeddingModels = Object.keys(this.knownModels[endpoint.backend ?? "lmstudio"] ?? {});
+      const row = new Setting(containerEl).setName(endpoint.url || "(no URL)").setDesc(describeHealth(h, embeddingModels));
+      row.nameEl.prepend(
+        createSpan({ text: "● ", attr: { style: `color: ${healthColor(h)}`, "aria-label": h?.healthy ? "healthy" : "unhealthy" } })
+      );
+      row
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOptions(Object.fromEntries(Object.values(BACKENDS).map((b) => [b.id, b.name])))
+            .setValue(endpoint.backend ?? "lmstudio")
+            .onChange(async (value) => {
+              endpoint.backend = value as BackendId;
+              // Offline endpoints have no real address; without a URL the endpoint would be ignored.
+              if (endpoint.backend === "offline" && !endpoint.url) endpoint.url = BACKENDS.offline.defaultUrl;
+              await this.saveEndpoints();
+              this.display();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder(BACKENDS[endpoint.backend ?? "lmstudio"].defaultUrl)
+            .setValue(endpoint.url)
+            .onChange(async (value) => {
+              endpoint.url = value.trim();
+              await this.saveEndpoints();
+            })
+        )
+        .addText((text) => {
+          text
+            .setPlaceholder("API key (optional)")
+            .setValue(endpoint.apiKey)
+            .onChange(async (value) => {
+              endpoint.apiKey = value.trim();
+              await this.saveEndpoints();
+            });
+          text.inputEl.type = "password";
+        })
+        .addText((text) => {
+          text
+            .setPlaceholder("Weight")
+            .setValue(String(endpoint.weight))
+            .onChange(async (value) => {
+              const n = Number(value);
+              endpoint.weight = Number.isFinite(n) && n > 0 ? n : 1;
+              await this.saveEndpoints();
+            });
+          text.inputEl.size = 3;
+        })
+        .addToggle((toggle) =>
+          toggle
+            .setTooltip("Enabled")
+            .setValue(endpoint.enabled)
+            .onChange(async (value) => {
+              endpoint.enabled = value;
+              await this.saveEndpoints();
+            })
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("trash")
+            .setTooltip("Remove endpoint")
+            .setDisabled(this.plugin.settings.endpoints.length <= 1)
+            .onClick(async () => {
+              if (this.plugin.settings.endpoints.length <= 1) return;
+              this.plugin.settings.endpoints.splice(index, 1);
+              await this.saveEndpoints();
+              this.display();
+            })
+        );
+    });
+
+    new Setting(containerEl)
+      .addButton((btn) =>
+        btn.setButtonText("Add endpoint").onClick(async () => {
+          this.plugin.settings.endpoints.push({ backend: "lmstudio", url: "", apiKey: "", weight: 1, enabled: true });
+          await this.saveEndpoints();
+          this.display();
+        })
+      )
+      .addButton((btn) =>
+        btn.setButtonText("Check endpoints").onClick(async () => {
+          await this.refreshKnownModels();
+          this.display();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Load balancing")
+      .setDesc("Round robin follows the endpoint weights; least latency prefers the endpoint that has been answering fastest.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ round_robin: "Weighted round robin", least_latency: "Least latency" })
+          .setValue(this.plugin.settings.loadBalancing)
+          .onChange(async (value) => {
+            this.plugin.settings.loadBalancing = value as LoadBalancing;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  /** Fetch the model lists of all configured backends; false if any of them failed. */
+  private async refreshKnownModels() {
+    let ok = true;
+    const known: Partial<Record<BackendId, Record<string, unknown>>> = {};
+    for (const backend of configuredBackends()) {
+      try {
+        known[backend] = await listModels(true, backend);
+      } catch (err: any) {
+        ok = false;
+        new Notice(`LM Studio Embeddings: no ${BACKENDS[backend].name} endpoint reachable (${err?.message ?? err})`);
+      }
+    }
+    this.knownModels = known;
+    return ok;
+  }
+
+  private async saveEndpoints() {
+    // A new array so the adapter notices the change.
+    this.plugin.settings.endpoints = this.plugin.settings.endpoints.slice();
+    await this.plugin.saveSettings();
+  }
+
+  private displayPrefixSettings(containerEl: HTMLElement) {
+    new Setting(containerEl).setName("Instruction prefixes").setHeading();
+
+    new Setting(containerEl)
+      .setName("Use built-in prefixes for known models")
+      .setDesc(
+        "Adds the task prefixes recommended for nomic-embed, e5, bge, mxbai, arctic-embed and Qwen embedding models " +
+          "(e.g. search_query: / search_document:). Changes the embedding key, so affected notes are re-embedded."
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.prefixPresets).onChange(async (value) => {
+          this.plugin.settings.prefixPresets = value;
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    containerEl.createEl("p", {
+      cls: "setting-item-description",
+      text: "Custom templates can be set per model under Per-model settings."
+    });
+  }
+
+  private displayPreprocessingSettings(containerEl: HTMLElement) {
+    new Setting(containerEl).setName("Markdown preprocessing").setHeading();
+    const options = this.plugin.settings.preprocessing;
+    const update = async (patch: Partial<PreprocessingOptions>, redraw = false) => {
+      this.plugin.settings.preprocessing = { ...this.plugin.settings.preprocessing, ...patch };
+      await this.plugin.saveSettings();
+      if (redraw) this.display();
+    };
+
+    new Setting(containerEl)
+      .setName("Clean up Markdown before embedding")
+      .setDesc(
+        "Runs the steps below, in this order, on every input so frontmatter, link syntax, code and markup don't use up " +
+          "the token budget. Part of the embedding key, so changing the steps re-embeds your notes."
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(options.enabled).onChange(async (value) => {
+          await update({ enabled: value }, true);
+        })
+      );
+    if (!options.enabled) return;
+
+    options.steps.forEach((step, index) => {
+      const move = async (by: number) => {
+        const steps = this.plugin.settings.preprocessing.steps.slice();
+        steps.splice(index + by, 0, ...steps.splice(index, 1));
+        await update({ steps }, true);
+      };
+      new Setting(containerEl)
+        .setName(`${index + 1}. ${PREPROCESS_STEPS[step.id].name}`)
+        .setDesc(PREPROCESS_STEPS[step.id].desc)
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("arrow-up")
+            .setTooltip("Run earlier")
+            .setDisabled(index === 0)
+            .onClick(() => (index > 0 ? move(-1) : undefined))
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("arrow-down")
+            .setTooltip("Run later")
+            .setDisabled(index === options.steps.length - 1)
+            .onClick(() => (index < options.steps.length - 1 ? move(1) : undefined))
+        )
+        .addToggle((toggle) =>
+          toggle.setValue(step.enabled).onChange(async (value) => {
+            const steps = this.plugin.settings.preprocessing.steps.map((s, i) => (i === index ? { ...s, enabled: value } : s));
+            await update({ steps });
+          })
+        );
+    });
+
+    new Setting(containerEl)
+      .setName("Frontmatter keys to keep")
+      .setDesc("Comma-separated, e.g. title, tags, aliases. Empty removes the whole frontmatter.")
+      .addText((text) =>
+        text.setValue(options.frontmatterKeys.join(", ")).onChange(async (value) => {
+          await update({ frontmatterKeys: value.split(",").map((k) => k.trim()).filter(Boolean) });
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Code blocks")
+      .setDesc("Drop them entirely, or keep the first lines of each block.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ shorten: "Shorten", drop: "Drop" })
+          .setValue(options.codeBlocks)
+          .onChange(async (value) => {
+            await update({ codeBlocks: value as PreprocessingOptions["codeBlocks"] });
+          })
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Lines kept")
+          .setValue(String(options.codeBlockMaxLines))
+          .onChange(async (value) => {
+            const n = Number(value);
+            await update({
+              codeBlockMaxLines: Number.isFinite(n) ? Math.max(0, Math.floor(n)) : DEFAULT_PREPROCESSING.codeBlockMaxLines
+            });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Preview")
+      .setDesc("Show the active note before and after preprocessing.")
+      .addButton((btn) =>
+        btn.setButtonText("Preview").onClick(async () => {
+          const file = this.app.workspace.getActiveFile();
+          if (!file || file.extension !== "md") {
+            new Notice("LM Studio Embeddings: open a note to preview preprocessing");
+            return;
+          }
+          const before = await this.app.vault.cachedRead(file);
+          const after = preprocessText(before, this.plugin.settings.preprocessing);
+          new PreprocessPreviewModal(this.app, file.basename, before, after).open();
+        })
+      );
+  }
+
+  private displayModelLoadingSettings(containerEl: HTMLElement) {
+    new Setting(containerEl).setName("Model loading").setHeading();
+
+    new Setting(containerEl)
+      .setName("Load model automatically")
+      .setDesc(
+        "When the server reports the selected model as not loaded, load it on startup and wait for it. " +
+          "LM Studio loads models on request only with JIT model loading enabled in its server settings."
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.autoLoadModel).onChange(async (value) => {
+          this.plugin.settings.autoLoadModel = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Model load timeout (ms)")
+      .setDesc("How long to wait for a model to load.")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.modelLoadTimeoutMs)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.modelLoadTimeoutMs = Number.isFinite(n)
+            ? Math.max(10_000, n)
+            : DEFAULT_SETTINGS.modelLoadTimeoutMs;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Warm up model")
+      .setDesc("Send one short embedding when the model is selected, so the first batch doesn't wait for the server.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.warmUpModel).onChange(async (value) => {
+          this.plugin.settings.warmUpModel = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Keep-alive interval (minutes)")
+      .setDesc(
+        "While you are editing, ping the model this often so the server's idle TTL doesn't unload it. " +
+          "Pings are skipped when embeddings were requested recently. 0 turns keep-alive off."
+      )
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.keepAliveMinutes)).onChange(async (value) => {
+          const n = Number(value);
+          this.plugin.settings.keepAliveMinutes = Number.isFinite(n) ? Math.max(0, n) : DEFAULT_SETTINGS.keepAliveMinutes;
+          await this.plugin.saveSettings();
+        })
+      );
+  }
+
+  private displayFingerprintSetting(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Detect model changes")
+      .setDesc(
+        "Embed a fixed test sentence when the model loads and compare it with the stored fingerprint. " +
+          "Warns when the model file or quantization changed under the same name, so old and new vectors aren't mixed."
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.fingerprintModels).onChange(async (value) => {
+          this.plugin.settings.fingerprintModels = value;
+          await this.plugin.saveSettings();
+        })
+      );
+  }
+
+  private displayModelOverrideSettings(containerEl: HTMLElement) {
+    new Setting(containerEl).setName("Per-model settings").setHeading();
+
+    const rowsEl = containerEl.createDiv();
+    rowsEl.createEl("p", {
+      cls: "setting-item-description",
+      text:
+        "Override the global settings for one model; empty fields use the global value. Templates: use {text} where " +
+        "the input goes; without it the template is used as a prefix, and empty templates use the built-in prefix (if " +
+        "enabled). Post-processing: normalize vectors to unit length, reduce Matryoshka models to fewer dimensions " +
+        "(requested from the server when it supports it, otherwise truncated here) and round components to fewer " +
+        "decimals, which makes the stored vectors smaller. Changing templates or dimensions changes the embedding key, " +
+        "so affected notes are re-embedded."
+    });
+
+    const parseCount = (value: string, min: number) => {
+      const n = Number(value.trim());
+      return value.trim() && Number.isInteger(n) && n >= min ? n : undefined;
+    };
+    const global = this.plugin.settings;
+
+    const backends = configuredBackends();
+    Promise.all(backends.map((backend) => listModels(false, backend).catch(() => ({}))))
+      .then((lists) => {
+        const keys = new Set([
+          ...lists.flatMap((models, i) => Object.keys(models).map((id) => modelOverrideKey(backends[i], id))),
+          ...Object.keys(global.modelOverrides).filter((key) => overrideBackend(key))
+        ]);
+        for (const key of keys) {
+          const backend = overrideBackend(key)!;
+          const id = key.slice(backend.length + 1);
+          const preset = global.prefixPresets ? findPrefixPreset(id) : null;
+          const override = global.modelOverrides[key] ?? {};
+          new Setting(rowsEl)
+            .setName(`${id} (${BACKENDS[backend].name})`)
+            .setDesc(preset ? `Built-in prefix: ${preset.label}` : "")
+            .setHeading();
+
+          new Setting(rowsEl)
+            .setName("Batch size, max tokens, timeout (ms)")
+            .addText((text) =>
+              text
+                .setPlaceholder(String(global.batchSize))
+                .setValue(override.batchSize ? String(override.batchSize) : "")
+                .onChange(async (value) => {
+                  await this.updateModelOverride(key, { batchSize: parseCount(value, 1) });
+                })
+            )
+            .addText((text) =>
+              text
+                .setPlaceholder(String(global.maxTokens))
+                .setValue(override.maxTokens ? String(override.maxTokens) : "")
+                .onChange(async (value) => {
+                  await this.updateModelOverride(key, { maxTokens: parseCount(value, 16) });
+                })
+            )
+            .addText((text) =>
+              text
+                .setPlaceholder(String(global.requestTimeoutMs))
+                .setValue(override.requestTimeoutMs ? String(override.requestTimeoutMs) : "")
+                .onChange(async (value) => {
+                  await this.updateModelOverride(key, { requestTimeoutMs: parseCount(value, 5_000) });
+                })
+            );
+
+          new Setting(rowsEl)
+            .setName("Query and document templates")
+            .addText((text) =>
+              text
+                .setPlaceholder(preset?.query ?? "Query template")
+                .setValue(override.queryTemplate ?? "")
+                .onChange(async (value) => {
+                  await this.updateModelOverride(key, { queryTemplate: value });
+                })
+            )
+            .addText((text) =>
+              text
+                .setPlaceholder(preset?.document ?? "Document template")
+                .setValue(override.documentTemplate ?? "")
+                .onChange(async (value) => {
+                  await this.updateModelOverride(key, { documentTemplate: value });
+                })
+            );
+
+          new Setting(rowsEl)
+            .setName("Normalize, dimensions, decimals")
+            .addToggle((toggle) =>
+              toggle
+                .setTooltip("Normalize")
+                .setValue(override.normalize === true)
+                .onChange(async (value) => {
+                  await this.updateModelOverride(key, { normalize: value });
+                })
+            )
+            .addText((text) =>
+              text
+                .setPlaceholder("Dimensions")
+                .setValue(override.dimensions ? String(override.dimensions) : "")
+                .onChange(async (value) => {
+                  await this.updateModelOverride(key, { dimensions: parseCount(value, 1) });
+                })
+            )
+            .addText((text) =>
+              text
+                .setPlaceholder("Decimals")
+                .setValue(override.precision !== undefined ? String(override.precision) : "")
+                .onChange(async (value) => {
+                  await this.updateModelOverride(key, { precision: parseCount(value, 0) });
+                })
+            );
+        }
+      });
+  }
+
+  private async updateModelOverride(key: string, patch: Partial<ModelOverride>) {
+    const next: ModelOverride = { ...(this.plugin.settings.modelOverrides[key] ?? {}), ...patch };
+    for (const [k, v] of Object.entries(next)) {
+      if (v === undefined || v === "" || v === false) delete (next as any)[k];
+    }
+    const overrides = { ...this.plugin.settings.modelOverrides };
+    if (Object.keys(next).length) overrides[key] = next;
+    else delete overrides[key];
+    this.plugin.settings.modelOverrides = overrides;
+    await this.plugin.saveSettings();
   }
 }
@@ -0,0 +1,320 @@
+import { BackendId, BACKENDS } from "./backends";
+import { ADAPTER_CLASSES, embeddingKeyFor } from "./lmstudio";
+import { activeAdapters } from "./registration";
+import { EmbeddingCancelledError } from "./retry";
+import { FileReader, readItemText } from "./transfer";
+
+/**
+ * Moving a vault to another embedding model without losing search in between. The new
+ * model's vectors are computed in the background under its own embed key while Smart
+ * Connections keeps searching with the old one. Once enough items are covered the
+ * assistant offers to switch Smart Connections to the new model; until then new and
+ * changed notes keep being embedded for it. Afterwards the old key can be purged.
+ */
+export type EmbedKeyStats = {
+  key: string;
+  sources: number;
+  blocks: number;
+  /** Approximate size of the vectors in Smart Connections' data files. */
+  bytes: number;
+};
+
+export type Coverage = { embedded: number; total: number };
+
+export type MigrationTarget = { backend: BackendId; modelId: string; embedKey: string };
+
+export type MigrationOptions = {
+  /** Items embedded per step. */
+  batchItems: number;
+  /** Pause between steps, so the migration doesn't compete with normal use. */
+  delayMs: number;
+  /** Coverage (0–100) at which the new model is ready to take over search. */
+  thresholdPercent: number;
+};
+
+// How often a migration that has caught up looks for new or changed items.
+const CAUGHT_UP_CHECK_MS = 30_000;
+// Items the server rejected are tried again after this long.
+const FAILED_RETRY_MS = 10 * 60_000;
+// Waits after batches that failed as a whole (server down or busy), doubling up to the max.
+const OUTAGE_FIRST_WAIT_MS = 10_000;
+const OUTAGE_MAX_WAIT_MS = 5 * 60_000;
+
+/** `done` means Smart Connections was switched to the target. */
+export type MigrationState = "idle" | "running" | "done" | "stopped" | "error";
+
+export type MigrationStatus = {
+  state: MigrationState;
+  target: MigrationTarget | null;
+  coverage: Coverage;
+  /** Coverage reached the threshold. */
+  ready: boolean;
+  /** Items the server rejected, waiting to be tried again. */
+  failed: number;
+  /** Set while waiting out a failed batch: when the next try is. */
+  retryAt: number | null;
+  /** The last embedding error, whether or not it stopped the migration. */
+  error: string | null;
+};
+
+/** The key Smart Connections stores vectors of one of our models under. */
+export function scEmbedKey(backend: BackendId, modelId: string) {
+  return `${BACKENDS[backend].adapterKey}-${embeddingKeyFor(backend, modelId)}`;
+}
+
+function collectionsOf(env: any): [string, any][] {
+  return (
+    [
+      ["sources", env?.smart_sources],
+      ["blocks", env?.smart_blocks]
+    ] as [string, any][]
+  ).filter(([, c]) => c?.items);
+}
+
+/** Every embed key with vectors in the env, most used first. */
+export function embedKeyStats(env: any): EmbedKeyStats[] {
+  const stats = new Map<string, EmbedKeyStats>();
+  for (const [kind, collection] of collectionsOf(env)) {
+    for (const item of Object.values<any>(collection.items)) {
+      for (const [key, entry] of Object.entries<any>(item?.data?.embeddings ?? {})) {
+        if (!Array.isArray(entry?.vec) || !entry.vec.length) continue;
+        let s = stats.get(key);
+        if (!s) {
+          s = { key, sources: 0, blocks: 0, bytes: 0 };
+          stats.set(key, s);
+        }
+        if (kind === "sources") s.sources++;
+        else s.blocks++;
+        s.bytes += JSON.stringify(entry).length + key.length + 4;
+      }
+    }
+  }
+  return [...stats.values()].sort((a, b) => b.sources + b.blocks - (a.sources + a.blocks));
+}
+
+/** Items Smart Connections embeds at all; tiny blocks are skipped by it. */
+function embeddableItems(env: any): any[] {
+  return collectionsOf(env).flatMap(([, c]) =>
+    Object.values<any>(c.items).filter((item) => item?.data && item.should_embed !== false)
+  );
+}
+
+function hasVector(item: any, key: string) {
+  const vec = item?.data?.embeddings?.[key]?.vec;
+  return Array.isArray(vec) && vec.length > 0;
+}
+
+/**
+ * Has a vector for `key` that matches the item's text as Smart Connections last read it.
+ * Vectors written by a migration remember that read hash; others count as current.
+ */
+function hasCurrentVector(item: any, key: string) {
+  if (!hasVector(item, key)) return false;
+  const embeddedAt = item.data.embeddings[key].read_hash;
+  const read = item.data.last_read?.hash;
+  return !embeddedAt || !read || embeddedAt === read;
+}
+
+export function coverageOf(env: any, key: string): Coverage {
+  const items = embeddableItems(env);
+  return { embedded: items.filter((item) => hasCurrentVector(item, key)).length, total: items.length };
+}
+
+function saveCollections(env: any) {
+  for (const [, collection] of collectionsOf(env)) {
+    Promise.resolve(collection.process_save_queue?.()).catch((err) =>
+      console.warn("[LM Studio Embeddings] failed to save Smart Connections data", err)
+    );
+  }
+}
+
+/** Delete every vector stored under `key`. Returns how many items had one. */
+export function purgeEmbedKey(env: any, key: string) {
+  let purged = 0;
+  for (const [, collection] of collectionsOf(env)) {
+    for (const item of Object.values<any>(collection.items)) {
+      if (!item?.data?.embeddings || !(key in item.data.embeddings)) continue;
+      delete item.data.embeddings[key];
+      item.queue_save?.();
+      purged++;
+    }
+  }
+  if (purged) saveCollections(env);
+  return purged;
+}
+
+let status: MigrationStatus = {
+  state: "idle",
+  target: null,
+  coverage: { embedded: 0, total: 0 },
+  ready: false,
+  failed: 0,
+  retryAt: null,
+  error: null
+};
+// Bumped to stop the running loop; a new run gets a new generation.
+let generation = 0;
+const listeners = new Set<() => void>();
+
+function update(next: Partial<MigrationStatus>) {
+  status = { ...status, ...next };
+  for (const listener of listeners) listener();
+}
+
+export function getMigration(): MigrationStatus {
+  return status;
+}
+
+export function onMigrationChanged(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Stop after the step in progress. */
+export function stopMigration() {
+  generation++;
+  if (status.state === "running") update({ state: "stopped", retryAt: null });
+}
+
+/** The text Smart Connections would embed for an item, with its own context (breadcrumbs) when available. */
+async function embedInput(item: any, readFile: FileReader): Promise<string | null> {
+  try {
+    await item.get_embed_input?.();
+  } catch {
+    // fall back to the raw text
+  }
+  const input = item.embed_input ?? item._embed_input;
+  return typeof input === "string" && input.trim() ? input : readItemText(item, readFile);
+}
+
+/**
+ * Switch Smart Connections to the target model, so it searches and embeds with it. Only
+ * models of the backend (adapter) Smart Connections already uses can be switched to here;
+ * returns why not otherwise.
+ */
+export function switchToTarget(env: any, target: MigrationTarget): string | null {
+  const adapters = activeAdapters(env);
+  if (!adapters.length) return "Smart Connections is not using one of this plugin's models";
+  if (adapters.some((adapter) => adapter.backendId !== target.backend)) {
+    return `select ${target.modelId} under the ${BACKENDS[target.backend].name} provider in the Smart Connections settings`;
+  }
+  for (const adapter of adapters) adapter.set_model_key(target.modelId);
+  // Smart Connections also keeps the choice in its settings; they save themselves when changed.
+  const stored = env?.settings?.smart_sources?.embed_model?.[BACKENDS[target.backend].adapterKey];
+  if (stored && typeof stored === "object") stored.model_key = target.modelId;
+  generation++;
+  update({ state: "done", retryAt: null });
+  return null;
+}
+
+/**
+ * Embed every item without a current vector for the target key, `batchItems` at a time
+ * with a pause in between, and store the vectors next to the old model's. Smart
+ * Connections' own model and vectors are left alone, so search keeps working on the old
+ * key. Once caught up it keeps checking for new and changed items until the migration is
+ * stopped or Smart Connections is switched to the target. `onReady` is called once when
+ * coverage reaches the threshold.
+ *
+ * A batch that fails as a whole (server unreachable or busy) is tried again after a wait
+ * that grows with each failure; only items that failed on their own are set aside, and
+ * those only for a while.
+ */
+export async function runMigration(
+  env: any,
+  target: MigrationTarget,
+  options: MigrationOptions,
+  readFile: FileReader,
+  onReady: () => void
+) {
+  const run = ++generation;
+  const isReady = (c: Coverage) => c.total > 0 && (c.embedded / c.total) * 100 >= options.thresholdPercent;
+  let announced = false;
+  const report = (coverage: Coverage) => {
+    update({ coverage, ready: isReady(coverage) });
+    if (status.ready && !announced) {
+      announced = true;
+      onReady();
+    }
+  };
+  const pause = (ms: number) => new Promise((resolve) => window.setTimeout(resolve, ms));
+  update({ state: "running", target, ready: false, failed: 0, retryAt: null, error: null });
+
+  const adapter = new ADAPTER_CLASSES[target.backend]({ data: { model_key: target.modelId } });
+  const batchItems = Math.max(1, options.batchItems);
+  // When each item that failed on its own may be tried again.
+  const failedUntil = new WeakMap<object, number>();
+  let outages = 0;
+  try {
+    while (run === generation) {
+      // Recomputed every pass: notes are added and edited while the migration runs.
+      const items = embeddableItems(env);
+      const missing = items.filter((item) => !hasCurrentVector(item, target.embedKey));
+      report({ embedded: items.length - missing.length, total: items.length });
+      const now = Date.now();
+      const pending = missing.filter((item) => (failedUntil.get(item) ?? 0) <= now);
+      update({ failed: missing.length - pending.length });
+      if (!pending.length) {
+        await pause(CAUGHT_UP_CHECK_MS);
+        continue;
+      }
+
+      for (let start = 0; start < pending.length && run === generation; start += batchItems) {
+        const batch: any[] = [];
+        const inputs: string[] = [];
+        const readHashes: unknown[] = [];
+        for (const item of pending.slice(start, start + batchItems)) {
+          const readHash = item.data?.last_read?.hash;
+          const text = await embedInput(item, readFile);
+          if (text === null) {
+            failedUntil.set(item, Date.now() + FAILED_RETRY_MS);
+            continue;
+          }
+          batch.push(item);
+          inputs.push(text);
+          readHashes.push(readHash);
+        }
+        let results: any[] = [];
+        let outage: string | null = null;
+        try {
+          // Per-item errors, so a padded zero vector is never stored as coverage.
+          results = inputs.length ? await adapter.embed_documents(inputs, "item_errors") : [];
+        } catch (err: any) {
+          if (err instanceof EmbeddingCancelledError) throw err;
+          outage = err?.message ?? String(err);
+        }
+        if (run !== generation) return;
+        const errors: (string | null)[] = results.map((result: any) =>
+          !result?.vec || result.error ? result?.error?.message ?? "no embedding returned" : null
+        );
+        if (!outage && results.length && errors.every((error) => error !== null)) outage = errors[0];
+        if (outage) {
+          // Nothing in the batch got through: more likely the server than the items.
+          const wait = Math.min(OUTAGE_MAX_WAIT_MS, Math.max(options.delayMs, OUTAGE_FIRST_WAIT_MS) * 2 ** outages++);
+          update({ retryAt: Date.now() + wait, error: outage });
+          await pause(wait);
+          if (run === generation) update({ retryAt: null });
+          break;
+        }
+        outages = 0;
+        let stored = 0;
+        results.forEach((result: any, i: number) => {
+          const item = batch[i];
+          if (errors[i] !== null) {
+            failedUntil.set(item, Date.now() + FAILED_RETRY_MS);
+            update({ failed: status.failed + 1, error: errors[i] });
+            return;
+          }
+          const entry = { vec: result.vec, tokens: result.tokens, read_hash: readHashes[i] };
+          item.data.embeddings = { ...(item.data.embeddings ?? {}), [target.embedKey]: entry };
+          item.queue_save?.();
+          stored++;
+        });
+        if (stored) saveCollections(env);
+        report({ embedded: status.coverage.embedded + stored, total: status.coverage.total });
+        await pause(options.delayMs);
+      }
+    }
+  } catch (err: any) {
+    if (run === generation) update({ state: "error", retryAt: null, error: err?.message ?? String(err) });
+  }
+}
@@ -0,0 +1,509 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import type { DiagnosticCheck } from "./diagnostics";
+import { clearFailures, listFailures, onFailuresChanged } from "./failures";
+import {
+  coverageOf,
+  Coverage,
+  EmbedKeyStats,
+  embedKeyStats,
+  getMigration,
+  MigrationTarget,
+  onMigrationChanged,
+  purgeEmbedKey,
+  stopMigration,
+  switchToTarget
+} from "./migration";
+import { clearRequestLog, listRequests, onRequestLogChanged } from "./requestlog";
+
+/** Lists inputs that failed to embed and lets the user queue them again. */
+export class FailedEmbeddingsModal extends Modal {
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    app: App,
+    private readonly requeue: (keys: string[]) => Promise<number>
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.titleEl.setText("Failed embeddings");
+    this.unsubscribe = onFailuresChanged(() => this.render());
+    this.render();
+  }
+
+  onClose() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.contentEl.empty();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    const failures = listFailures();
+
+    if (!failures.length) {
+      contentEl.createEl("p", { text: "No failed embeddings in this session." });
+      return;
+    }
+
+    new Setting(contentEl)
+      .setDesc(`${failures.length} items failed to embed.`)
+      .addButton((btn) =>
+        btn
+          .setButtonText("Re-queue all")
+          .setCta()
+          .onClick(async () => {
+            try {
+              const queued = await this.requeue(failures.map((f) => f.key));
+              new Notice(`LM Studio Embeddings: re-queued ${queued} of ${failures.length} items`);
+            } catch (err: any) {
+              new Notice(`LM Studio Embeddings: failed to re-queue (${err?.message ?? err})`);
+            }
+          })
+      )
+      .addButton((btn) => btn.setButtonText("Clear list").onClick(() => clearFailures()));
+
+    const list = contentEl.createEl("ul");
+    for (const failure of failures) {
+      const li = list.createEl("li");
+      li.createEl("strong", { text: failure.key });
+      li.createEl("div", {
+        cls: "setting-item-description",
+        text: `${new Date(failure.at).toLocaleTimeString()} · ${failure.model} · ${failure.error}`
+      });
+    }
+  }
+}
+
+/** Shows the recent requests kept by the request log, newest first. */
+export class RequestLogModal extends Modal {
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    app: App,
+    private readonly exportLog: () => Promise<void>
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.titleEl.setText("Request log");
+    this.unsubscribe = onRequestLogChanged(() => this.render());
+    this.render();
+  }
+
+  onClose() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.contentEl.empty();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    const requests = listRequests();
+
+    if (!requests.length) {
+      contentEl.createEl("p", { text: "No requests logged. Enable the request log in the settings to record them." });
+      return;
+    }
+
+    new Setting(contentEl)
+      .setDesc(`${requests.length} recent requests.`)
+      .addButton((btn) =>
+        btn
+          .setButtonText("Export JSON")
+          .setCta()
+          .onClick(() => void this.exportLog())
+      )
+      .addButton((btn) => btn.setButtonText("Clear log").onClick(() => clearRequestLog()));
+
+    const list = contentEl.createEl("ul");
+    for (const request of requests) {
+      const ok = request.status !== null && request.status >= 200 && request.status < 300 && !request.error;
+      const li = list.createEl("li");
+      li.createSpan({ text: "● ", attr: { style: `color: ${ok ? "var(--color-green)" : "var(--color-red)"}` } });
+      li.createEl("strong", { text: `${request.endpoint}${request.path}` });
+      const details = [
+        new Date(request.at).toLocaleTimeString(),
+        request.model,
+        request.batchSize !== null ? `${request.batchSize} inputs` : null,
+        request.status === null ? "cancelled" : request.status === 0 ? "no response" : `HTTP ${request.status}`,
+        `${request.latencyMs} ms`,
+        request.dims !== null ? `${request.dims} dims` : null
+      ].filter(Boolean);
+      li.createEl("div", { cls: "setting-item-description", text: details.join(" · ") });
+      if (request.error) li.createEl("div", { cls: "setting-item-description", text: request.error });
+    }
+  }
+}
+
+/** Shows a note before and after Markdown preprocessing. */
+export class PreprocessPreviewModal extends Modal {
+  constructor(
+    app: App,
+    private readonly title: string,
+    private readonly before: string,
+    private readonly after: string
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(`Preprocessing preview: ${this.title}`);
+    const saved = this.before.length ? Math.round((1 - this.after.length / this.before.length) * 100) : 0;
+    contentEl.createEl("p", {
+      cls: "setting-item-description",
+      text: `${this.before.length} → ${this.after.length} characters (${saved}% less).`
+    });
+    for (const [heading, text] of [
+      ["Before", this.before],
+      ["After", this.after]
+    ]) {
+      contentEl.createEl("h4", { text: heading });
+      contentEl.createEl("pre", {
+        text,
+        attr: { style: "white-space: pre-wrap; max-height: 30vh; overflow: auto; user-select: text;" }
+      });
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+const STATUS_COLORS: Record<DiagnosticCheck["status"], string> = {
+  ok: "var(--color-green)",
+  warn: "var(--color-orange)",
+  fail: "var(--color-red)"
+};
+
+/** Runs the connection diagnostics and shows the results as a copyable report. */
+export class DiagnosticsModal extends Modal {
+  private report = "";
+
+  constructor(
+    app: App,
+    private readonly run: () => Promise<{ checks: DiagnosticCheck[]; text: string }>
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.titleEl.setText("LM Studio Embeddings diagnostics");
+    void this.execute();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private async execute() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("p", { text: "Running checks…" });
+
+    let checks: DiagnosticCheck[];
+    try {
+      const result = await this.run();
+      checks = result.checks;
+      this.report = result.text;
+    } catch (err: any) {
+      checks = [{ name: "Diagnostics", status: "fail", detail: err?.message ?? String(err) }];
+      this.report = `Diagnostics failed: ${err?.message ?? err}`;
+    }
+
+    contentEl.empty();
+    const list = contentEl.createEl("ul");
+    for (const check of checks) {
+      const li = list.createEl("li");
+      li.createSpan({ text: "● ", attr: { style: `color: ${STATUS_COLORS[check.status]}` } });
+      li.createEl("strong", { text: check.name });
+      li.createEl("div", { cls: "setting-item-description", text: check.detail });
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn
+          .setButtonText("Copy report")
+          .setCta()
+          .onClick(async () => {
+            await navigator.clipboard.writeText(this.report);
+            new Notice("LM Studio Embeddings: diagnostics report copied");
+          })
+      )
+      .addButton((btn) => btn.setButtonText("Run again").onClick(() => void this.execute()));
+  }
+}
+
+export type ModelChangeChoice = "reembed" | "new_key" | "ignore";
+
+/** Asks what to do when the selected model returns different vectors than before. */
+export class ModelChangedModal extends Modal {
+  private chosen = false;
+
+  constructor(
+    app: App,
+    private readonly modelId: string,
+    private readonly detail: string,
+    private readonly choose: (choice: ModelChangeChoice) => Promise<void>
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText("Embedding model changed");
+    contentEl.createEl("p", {
+      text:
+        `${this.modelId} returns different vectors than when your notes were embedded (${this.detail}). ` +
+        "The file or its quantization was probably replaced. New and old vectors can't be compared meaningfully."
+    });
+
+    new Setting(contentEl)
+      .setName("Re-embed everything")
+      .setDesc("Queue all notes and blocks for embedding again under the current key.")
+      .addButton((btn) =>
+        btn
+          .setButtonText("Re-embed")
+          .setCta()
+          .onClick(() => this.pick("reembed"))
+      );
+    new Setting(contentEl)
+      .setName("Use a new key")
+      .setDesc("Store the new vectors under a new embedding key; the old ones stay untouched.")
+      .addButton((btn) => btn.setButtonText("New key").onClick(() => this.pick("new_key")));
+    new Setting(contentEl)
+      .setName("Ignore")
+      .setDesc("Keep going as is. You won't be asked again for this change.")
+      .addButton((btn) => btn.setButtonText("Ignore").onClick(() => this.pick("ignore")));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private async pick(choice: ModelChangeChoice) {
+    if (this.chosen) return;
+    this.chosen = true;
+    this.close();
+    try {
+      await this.choose(choice);
+    } catch (err: any) {
+      new Notice(`LM Studio Embeddings: ${err?.message ?? err}`);
+    }
+  }
+}
+
+/** What the migration assistant needs from the plugin. */
+export type MigrationHost = {
+  env(): any;
+  /** The embed key Smart Connections currently searches with. */
+  activeKey(): string | null;
+  targets(): Promise<MigrationTarget[]>;
+  thresholdPercent(): number;
+  start(target: MigrationTarget): void;
+};
+
+function percent(c: Coverage) {
+  return c.total ? Math.floor((c.embedded / c.total) * 1000) / 10 : 0;
+}
+
+/**
+ * Lists the embed keys in the Smart Connections env and moves the vault to another model:
+ * embeds it in the background under the new key and purges keys no longer used.
+ */
+export class MigrationModal extends Modal {
+  private unsubscribe: (() => void) | null = null;
+  private stats: EmbedKeyStats[] = [];
+  private targets: MigrationTarget[] = [];
+  private selected: MigrationTarget | null = null;
+  private selectedCoverage: Coverage | null = null;
+  // Key whose purge button was clicked once and waits for confirmation.
+  private confirmPurge: string | null = null;
+
+  constructor(
+    app: App,
+    private readonly host: MigrationHost
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.titleEl.setText("Embedding model migration");
+    this.unsubscribe = onMigrationChanged(() => {
+      // Counts only change noticeably when a run ends.
+      if (getMigration().state !== "running") this.refreshStats();
+      this.render();
+    });
+    this.selected = getMigration().target;
+    this.refreshStats();
+    this.render();
+    this.host
+      .targets()
+      .then((targets) => {
+        this.targets = targets;
+        if (!this.selected && targets.length) this.select(targets.find((t) => t.embedKey !== this.host.activeKey()) ?? targets[0]);
+        this.render();
+      })
+      .catch((err) => new Notice(`LM Studio Embeddings: failed to list models (${err?.message ?? err})`));
+  }
+
+  onClose() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.contentEl.empty();
+  }
+
+  private refreshStats() {
+    const env = this.host.env();
+    this.stats = env ? embedKeyStats(env) : [];
+    this.selectedCoverage = env && this.selected ? coverageOf(env, this.selected.embedKey) : null;
+  }
+
+  private select(target: MigrationTarget) {
+    this.selected = target;
+    const env = this.host.env();
+    this.selectedCoverage = env ? coverageOf(env, target.embedKey) : null;
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    if (!this.host.env()) {
+      contentEl.createEl("p", { text: "Smart Connections is not loaded." });
+      return;
+    }
+    const activeKey = this.host.activeKey();
+    const migration = getMigration();
+    const running = migration.state === "running";
+
+    contentEl.createEl("h3", { text: "Embed keys" });
+    contentEl.createEl("p", {
+      cls: "setting-item-description",
+      text: `Smart Connections searches with ${activeKey ?? "a model of another plugin"}.`
+    });
+    if (!this.stats.length) contentEl.createEl("p", { text: "No vectors stored yet." });
+    for (const stat of this.stats) {
+      const inUse = stat.key === activeKey;
+      const isTarget = stat.key === (running ? migration.target?.embedKey : this.selected?.embedKey);
+      const tags = [inUse ? "in use" : null, isTarget ? "migration target" : null].filter(Boolean);
+      const confirming = this.confirmPurge === stat.key;
+      new Setting(contentEl)
+        .setName(stat.key)
+        .setDesc(
+          [
+            `${stat.sources} sources`,
+            `${stat.blocks} blocks`,
+            `~${(stat.bytes / 1024 / 1024).toFixed(1)} MB`,
+            ...tags
+          ].join(" · ")
+        )
+        .addButton((btn) =>
+          btn
+            .setButtonText(confirming ? "Confirm purge" : "Purge")
+            .setWarning()
+            .setDisabled(inUse || (running && isTarget))
+            .onClick(() => {
+              if (!confirming) {
+                this.confirmPurge = stat.key;
+                this.render();
+                return;
+              }
+              this.confirmPurge = null;
+              const purged = purgeEmbedKey(this.host.env(), stat.key);
+              new Notice(`LM Studio Embeddings: removed ${purged} vectors for ${stat.key}`);
+              this.refreshStats();
+              this.render();
+            })
+        );
+    }
+    new Setting(contentEl).addButton((btn) =>
+      btn.setButtonText("Refresh").onClick(() => {
+        this.refreshStats();
+        this.render();
+      })
+    );
+
+    contentEl.createEl("h3", { text: "Migrate to another model" });
+    const threshold = this.host.thresholdPercent();
+    new Setting(contentEl)
+      .setName("New model")
+      .setDesc("Vectors for it are computed in the background; Smart Connections keeps searching with the current model.")
+      .addDropdown((dropdown) => {
+        if (!this.targets.length) dropdown.addOption("", "Loading models…");
+        for (const target of this.targets) dropdown.addOption(target.embedKey, target.embedKey);
+        dropdown
+          .setValue(this.selected?.embedKey ?? "")
+          .setDisabled(running)
+          .onChange((value) => {
+            const target = this.targets.find((t) => t.embedKey === value);
+            if (target) this.select(target);
+            this.render();
+          });
+      });
+
+    const coverage = running || migration.target?.embedKey === this.selected?.embedKey ? migration.coverage : this.selectedCoverage;
+    const progress = coverage
+      ? `${coverage.embedded} of ${coverage.total} items embedded (${percent(coverage)}%); ready at ${threshold}%.`
+      : "Pick a model to see its coverage.";
+    const caughtUp = running && coverage !== null && coverage.embedded + migration.failed >= coverage.total;
+    const failures = migration.failed
+      ? ` ${migration.failed} item(s) failed and are tried again in a few minutes (${migration.error}).`
+      : "";
+    const waiting = migration.retryAt
+      ? `Waiting for the server until ${new Date(migration.retryAt).toLocaleTimeString()} (${migration.error}).`
+      : null;
+    const states = {
+      idle: "",
+      running:
+        (waiting ?? (caughtUp ? "Caught up; watching for new and changed notes." : "Running.")) + failures,
+      done: "Smart Connections now uses this model.",
+      stopped: "Stopped.",
+      error: `Failed: ${migration.error}`
+    };
+    new Setting(contentEl)
+      .setName("Progress")
+      .setDesc(`${progress} ${migration.target?.embedKey === this.selected?.embedKey ? states[migration.state] : ""}`.trim())
+      .addButton((btn) =>
+        running
+          ? btn.setButtonText("Stop").onClick(() => stopMigration())
+          : btn
+              .setButtonText("Start")
+              .setCta()
+              .setDisabled(!this.selected || this.selected.embedKey === activeKey)
+              .onClick(() => {
+                if (this.selected) this.host.start(this.selected);
+              })
+      );
+
+    const target = this.selected;
+    if (target && target.embedKey !== activeKey && coverage && percent(coverage) >= threshold) {
+      new Setting(contentEl)
+        .setName("Switch to the new model")
+        .setDesc(
+          `${target.modelId} covers enough of the vault to take over search. Smart Connections embeds the rest ` +
+            "itself once switched; the old key can then be purged above."
+        )
+        .addButton((btn) =>
+          btn
+            .setButtonText("Switch now")
+            .setCta()
+            .onClick(() => {
+              const problem = switchToTarget(this.host.env(), target);
+              if (problem) {
+                new Notice(`LM Studio Embeddings: can't switch automatically; ${problem}`);
+                return;
+              }
+              new Notice(`LM Studio Embeddings: Smart Connections now uses ${target.modelId}`);
+              this.refreshStats();
+              this.render();
+            })
+        );
+    }
+  }
+}
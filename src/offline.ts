@@ -0,0 +1,146 @@
+import { hashString } from "./hash";
+
+/**
+ * A built-in, in-process embedding "server" for testing and air-gapped use. It speaks the
+ * OpenAI-compatible API, so requests to it go through the same transport, retries,
+ * batching and recovery as real servers, and can be told to misbehave.
+ */
+export type OfflineOptions = {
+  /** Dimensions of the listed model; requests for `offline-ngram-<N>` get N dimensions. */
+  dimensions: number;
+  /** Chance (0–100) that an embedding response leaves out the last vector. */
+  countMismatchPercent: number;
+  /** Chance (0–100) that an embedding request never answers, so the client times out. */
+  timeoutPercent: number;
+  /** Chance (0–100) that an embedding request fails with `httpErrorStatus`. */
+  httpErrorPercent: number;
+  httpErrorStatus: number;
+};
+
+export const OFFLINE_MODEL_PREFIX = "offline-ngram-";
+
+// Character n-gram length. Trigrams catch morphology; whole words are added on top.
+const NGRAM = 3;
+
+let options: OfflineOptions = {
+  dimensions: 384,
+  countMismatchPercent: 0,
+  timeoutPercent: 0,
+  httpErrorPercent: 0,
+  httpErrorStatus: 500
+};
+
+export function configureOfflineServer(next: Partial<OfflineOptions>) {
+  options = { ...options, ...next };
+}
+
+export function offlineModelId(dimensions = options.dimensions) {
+  return `${OFFLINE_MODEL_PREFIX}${dimensions}`;
+}
+
+function dimensionsOf(model: unknown) {
+  if (typeof model !== "string" || !model.startsWith(OFFLINE_MODEL_PREFIX)) return options.dimensions;
+  const n = Number(model.slice(OFFLINE_MODEL_PREFIX.length));
+  return Number.isInteger(n) && n > 0 ? n : options.dimensions;
+}
+
+function bucket(feature: string) {
+  return parseInt(hashString(feature).slice(-8), 16);
+}
+
+/**
+ * Feature hashing: every character trigram and word of the lowercased text adds ±1 to
+ * the component its hash points at, and the result is L2-normalized. The same text always
+ * gives the same vector, and texts sharing words or word parts end up similar.
+ */
+export function hashedNgramVector(text: string, dimensions: number): number[] {
+  const vec = new Array<number>(dimensions).fill(0);
+  const normalized = text.toLowerCase().replace(/\s+/g, " ").trim();
+  const add = (feature: string) => {
+    const h = bucket(feature);
+    // The top bit picks the sign, so collisions cancel out instead of piling up.
+    vec[h % dimensions] += h & 0x80000000 ? -1 : 1;
+  };
+  const padded = ` ${normalized} `;
+  for (let i = 0; i + NGRAM <= padded.length; i++) add(padded.slice(i, i + NGRAM));
+  for (const word of normalized.split(" ")) if (word) add(`w:${word}`);
+
+  let sumSquares = 0;
+  for (const v of vec) sumSquares += v * v;
+  if (!sumSquares) {
+    vec[bucket("") % dimensions] = 1;
+    return vec;
+  }
+  const n = Math.sqrt(sumSquares);
+  return vec.map((v) => v / n);
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+function chance(percent: number) {
+  return percent > 0 && Math.random() * 100 < percent;
+}
+
+/** Never answers; rejects like `fetch` does once the request is aborted. */
+function hang(signal: AbortSignal | null | undefined) {
+  return new Promise<Response>((_, reject) => {
+    const abort = () => reject(new DOMException("The operation was aborted.", "AbortError"));
+    if (signal?.aborted) abort();
+    else signal?.addEventListener("abort", abort, { once: true });
+  });
+}
+
+function embed(body: any) {
+  const input = body?.input;
+  const texts: string[] = typeof input === "string" ? [input] : Array.isArray(input) ? input.map(String) : [];
+  const requested = Number(body?.dimensions);
+  const dimensions = Number.isInteger(requested) && requested > 0 ? requested : dimensionsOf(body?.model);
+  const data = texts.map((text, index) => ({
+    object: "embedding",
+    index,
+    embedding: hashedNgramVector(text, dimensions)
+  }));
+  if (data.length && chance(options.countMismatchPercent)) data.pop();
+  const tokens = texts.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+  return {
+    object: "list",
+    model: body?.model ?? offlineModelId(),
+    data,
+    usage: { prompt_tokens: tokens, total_tokens: tokens }
+  };
+}
+
+/** `fetch` for offline endpoints: answers `/v1/models` and `/v1/embeddings` in-process. */
+export async function offlineFetch(url: string, init?: RequestInit): Promise<Response> {
+  if (init?.signal?.aborted) return hang(init.signal);
+  const path = url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, "").replace(/\?.*$/, "");
+
+  if (path === "/v1/models") {
+    const model = {
+      id: offlineModelId(),
+      object: "model",
+      type: "embeddings",
+      dims: options.dimensions,
+      max_context_length: 8192
+    };
+    return json({ object: "list", data: [model] });
+  }
+
+  if (path === "/v1/embeddings" && init?.method === "POST") {
+    if (chance(options.timeoutPercent)) return hang(init.signal);
+    if (chance(options.httpErrorPercent)) {
+      return json({ error: { message: `injected HTTP ${options.httpErrorStatus}` } }, options.httpErrorStatus);
+    }
+    let body: any;
+    try {
+      body = JSON.parse(String(init.body ?? ""));
+    } catch {
+      return json({ error: { message: "invalid JSON body" } }, 400);
+    }
+    return json(embed(body));
+  }
+
+  return json({ error: { message: `unknown path ${path}` } }, 404);
+}
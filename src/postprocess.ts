@@ -0,0 +1,50 @@
+/** What happens to a vector between the server and Smart Connections. */
+export type PostProcessing = {
+  /** Scale to unit length. */
+  normalize: boolean;
+  /** Matryoshka output size; null keeps the model's full dimensions. */
+  dimensions: number | null;
+  /** Decimal places to keep; null keeps full float precision. */
+  precision: number | null;
+};
+
+export const NO_POST_PROCESSING: PostProcessing = { normalize: false, dimensions: null, precision: null };
+
+export function norm(vec: number[]) {
+  let sum = 0;
+  for (const v of vec) sum += v * v;
+  return Math.sqrt(sum);
+}
+
+function scaled(vec: number[], factor: number) {
+  return vec.map((v) => v * factor);
+}
+
+/**
+ * Apply post-processing to one vector. Vectors longer than the requested dimensions
+ * (the server ignored `dimensions`) are cut down and renormalized, as Matryoshka models
+ * require; the prefix of a Matryoshka embedding is only meaningful at unit length.
+ */
+export function postProcessVector(vec: number[], pp: PostProcessing): number[] {
+  let out = vec;
+  const truncated = pp.dimensions !== null && out.length > pp.dimensions;
+  if (truncated) out = out.slice(0, pp.dimensions!);
+  if (truncated || pp.normalize) {
+    const n = norm(out);
+    if (n > 0) out = scaled(out, 1 / n);
+  }
+  if (pp.precision !== null) {
+    const factor = 10 ** pp.precision;
+    out = out.map((v) => Math.round(v * factor) / factor);
+  }
+  return out;
+}
+
+/**
+ * Embedding-key suffix for post-processing, or "" when the vectors keep their full size.
+ * Only the dimensions go into the key: normalizing or rounding leaves cosine similarity
+ * (practically) unchanged, but vectors of different sizes can't be compared at all.
+ */
+export function postProcessKeySuffix(pp: PostProcessing) {
+  return pp.dimensions !== null ? `d${pp.dimensions}` : "";
+}
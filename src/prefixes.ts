@@ -0,0 +1,72 @@
+import { shortHash } from "./hash";
+
+/** Which Smart Connections entry point an input came through. */
+export type EmbedKind = "query" | "document";
+
+export type PrefixTemplates = { query: string; document: string };
+
+type PrefixPreset = PrefixTemplates & { label: string; pattern: RegExp };
+
+/** Template placeholder for the input text. Templates without it are used as a prefix. */
+const TEXT_PLACEHOLDER = "{text}";
+
+const IDENTITY: PrefixTemplates = { query: TEXT_PLACEHOLDER, document: TEXT_PLACEHOLDER };
+
+const RETRIEVAL_INSTRUCTION = "Represent this sentence for searching relevant passages: {text}";
+
+/**
+ * Task prefixes recommended by the model authors. First match wins, so more specific
+ * patterns come first.
+ */
+const PREFIX_PRESETS: PrefixPreset[] = [
+  { label: "nomic-embed", pattern: /nomic-embed/i, query: "search_query: {text}", document: "search_document: {text}" },
+  {
+    label: "Qwen3 / gte-Qwen embedding",
+    pattern: /qwen.*embed|gte-qwen/i,
+    query: "Instruct: Given a web search query, retrieve relevant passages that answer the query\nQuery: {text}",
+    document: TEXT_PLACEHOLDER
+  },
+  { label: "e5", pattern: /(^|[^a-z])e5([^a-z]|$)/i, query: "query: {text}", document: "passage: {text}" },
+  { label: "bge (English)", pattern: /bge-(small|base|large)-en/i, query: RETRIEVAL_INSTRUCTION, document: TEXT_PLACEHOLDER },
+  { label: "mxbai-embed", pattern: /mxbai-embed/i, query: RETRIEVAL_INSTRUCTION, document: TEXT_PLACEHOLDER },
+  { label: "snowflake-arctic-embed", pattern: /arctic-embed/i, query: RETRIEVAL_INSTRUCTION, document: TEXT_PLACEHOLDER }
+];
+
+export function findPrefixPreset(modelId: string): PrefixPreset | null {
+  return PREFIX_PRESETS.find((p) => p.pattern.test(modelId)) ?? null;
+}
+
+/**
+ * Resolve the templates for a model: custom templates win over presets, and presets only
+ * apply when enabled. Empty custom fields fall through to the next source.
+ */
+export function resolvePrefixTemplates(
+  modelId: string,
+  custom: Partial<PrefixTemplates> | undefined,
+  usePresets: boolean
+): PrefixTemplates {
+  const preset = usePresets ? findPrefixPreset(modelId) : null;
+  return {
+    query: custom?.query?.trim() ? custom.query : preset?.query ?? IDENTITY.query,
+    document: custom?.document?.trim() ? custom.document : preset?.document ?? IDENTITY.document
+  };
+}
+
+export function applyTemplate(template: string, text: string) {
+  if (!template || template === TEXT_PLACEHOLDER) return text;
+  return template.includes(TEXT_PLACEHOLDER) ? template.split(TEXT_PLACEHOLDER).join(text) : `${template}${text}`;
+}
+
+/** The template text without the placeholder, i.e. what it adds to every input. */
+export function templateOverhead(template: string) {
+  return (template ?? "").split(TEXT_PLACEHOLDER).join("");
+}
+
+/**
+ * Embedding-key suffix for a template pair, or "" when no prefix is applied. Keeps keys
+ * unchanged for users who never enable prefixes.
+ */
+export function prefixKeySuffix(templates: PrefixTemplates) {
+  if (templates.query === IDENTITY.query && templates.document === IDENTITY.document) return "";
+  return `p-${shortHash(`${templates.query}\u0000${templates.document}`)}`;
+}
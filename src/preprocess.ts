@@ -0,0 +1,221 @@
+import { shortHash } from "./hash";
+
+/** One cleanup applied to Markdown before it is embedded. */
+export type PreprocessStepId =
+  | "frontmatter"
+  | "data_images"
+  | "code_blocks"
+  | "comments"
+  | "callouts"
+  | "wikilinks"
+  | "whitespace";
+
+export type PreprocessStep = { id: PreprocessStepId; enabled: boolean };
+
+export type CodeBlockMode = "drop" | "shorten";
+
+export type PreprocessingOptions = {
+  enabled: boolean;
+  /** Steps in the order they run. */
+  steps: PreprocessStep[];
+  /** Frontmatter keys kept as `key: value` lines; empty drops the whole frontmatter. */
+  frontmatterKeys: string[];
+  codeBlocks: CodeBlockMode;
+  /** Lines of code kept per block when shortening. */
+  codeBlockMaxLines: number;
+};
+
+export const PREPROCESS_STEPS: Record<PreprocessStepId, { name: string; desc: string }> = {
+  frontmatter: { name: "Frontmatter", desc: "Remove YAML frontmatter, or keep only the listed keys." },
+  data_images: { name: "Embedded images", desc: "Remove base64 data-URI images." },
+  code_blocks: {
+    name: "Code blocks",
+    desc: "Drop or shorten fenced code blocks. Dataview, Tasks and query blocks and inline queries are always removed."
+  },
+  comments: { name: "Comments", desc: "Remove HTML comments and %% Obsidian comments %%." },
+  callouts: {
+    name: "Callouts",
+    desc: "Turn callouts into plain text: keep the title and content, drop the > [!type] markup."
+  },
+  wikilinks: {
+    name: "Wikilinks",
+    desc: "Reduce [[note|alias]] to its display text; embedded attachments (![[image.png]]) are removed."
+  },
+  whitespace: { name: "Whitespace", desc: "Collapse runs of spaces and blank lines." }
+};
+
+export const DEFAULT_PREPROCESSING: PreprocessingOptions = {
+  enabled: false,
+  steps: (Object.keys(PREPROCESS_STEPS) as PreprocessStepId[]).map((id) => ({ id, enabled: true })),
+  frontmatterKeys: [],
+  codeBlocks: "shorten",
+  codeBlockMaxLines: 10
+};
+
+/** Fill in defaults for saved options, keeping the saved step order and adding new steps at the end. */
+export function normalizePreprocessing(raw: any): PreprocessingOptions {
+  const known = Object.keys(PREPROCESS_STEPS) as PreprocessStepId[];
+  const saved: PreprocessStep[] = [];
+  for (const step of Array.isArray(raw?.steps) ? raw.steps : []) {
+    if (known.includes(step?.id) && !saved.some((s) => s.id === step.id)) saved.push(step);
+  }
+  const steps = [
+    ...saved.map((s) => ({ id: s.id, enabled: s.enabled !== false })),
+    ...known.filter((id) => !saved.some((s) => s.id === id)).map((id) => ({ id, enabled: true }))
+  ];
+  const maxLines = Number(raw?.codeBlockMaxLines);
+  return {
+    enabled: raw?.enabled === true,
+    steps,
+    frontmatterKeys: Array.isArray(raw?.frontmatterKeys)
+      ? raw.frontmatterKeys.map((k: any) => String(k).trim()).filter(Boolean)
+      : [],
+    codeBlocks: raw?.codeBlocks === "drop" ? "drop" : "shorten",
+    codeBlockMaxLines: Number.isInteger(maxLines) && maxLines >= 0 ? maxLines : DEFAULT_PREPROCESSING.codeBlockMaxLines
+  };
+}
+
+const FRONTMATTER = /^\s*---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+function frontmatter(text: string, keep: string[]) {
+  const match = FRONTMATTER.exec(text);
+  if (!match) return text;
+  const rest = text.slice(match[0].length);
+  if (!keep.length) return rest;
+
+  // Top-level `key:` lines start an entry; indented and `- ` lines continue it.
+  const kept: string[] = [];
+  let keeping = false;
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!/^(\s|-\s)/.test(line)) {
+      const key = /^([^:#]+):/.exec(line)?.[1]?.trim();
+      keeping = key !== undefined && keep.includes(key);
+    }
+    if (keeping) kept.push(line);
+  }
+  return kept.length ? `${kept.join("\n")}\n\n${rest}` : rest;
+}
+
+function dataImages(text: string) {
+  return text
+    .replace(/!\[[^\]]*\]\(\s*data:[^)]*\)/gi, "")
+    .replace(/<img\b[^>]*\bsrc\s*=\s*["']data:[^"']*["'][^>]*>/gi, "")
+    .replace(/data:image\/[a-z0-9.+-]+;base64,[a-z0-9+/=\s]{64,}/gi, "");
+}
+
+const QUERY_LANGUAGES = /^(dataview|dataviewjs|query|tasks)$/i;
+const FENCED_BLOCK = /^([ \t]*)(`{3,}|~{3,})([^\n]*)\n([\s\S]*?)^[ \t]*\2[ \t]*$/gm;
+
+function codeBlocks(text: string, mode: CodeBlockMode, maxLines: number) {
+  const fenced = text.replace(FENCED_BLOCK, (_, indent, fence, info, body) => {
+    const lang = String(info).trim().split(/\s+/)[0] ?? "";
+    if (mode === "drop" || QUERY_LANGUAGES.test(lang)) return "";
+    const lines = String(body).replace(/\n$/, "").split("\n");
+    if (lines.length <= maxLines) return `${indent}${fence}${info}\n${body}${indent}${fence}`;
+    const shown = lines.slice(0, maxLines);
+    return `${indent}${fence}${info}\n${shown.length ? `${shown.join("\n")}\n` : ""}${indent}…\n${indent}${fence}`;
+  });
+  // Inline Dataview queries: `= expression` and `$= expression`.
+  return fenced.replace(/`\$?=[^`\n]*`/g, "");
+}
+
+function comments(text: string) {
+  return text.replace(/<!--[\s\S]*?-->/g, "").replace(/%%[\s\S]*?%%/g, "");
+}
+
+function callouts(text: string) {
+  const out: string[] = [];
+  let inCallout = false;
+  for (const line of text.split("\n")) {
+    let rest = line;
+    if (inCallout) {
+      const quoted = /^\s*>\s?(.*)$/.exec(line);
+      if (quoted) rest = quoted[1];
+      else inCallout = false;
+    }
+    // Nested callouts repeat the header once the outer quote marker is gone.
+    let header = /^\s*(?:>\s*)*\[!([^\]]+)\][+-]?[ \t]*(.*)$/.exec(rest);
+    while (header) {
+      inCallout = true;
+      rest = header[2];
+      header = /^\s*(?:>\s*)*\[!([^\]]+)\][+-]?[ \t]*(.*)$/.exec(rest);
+    }
+    if (inCallout) rest = rest.replace(/^(\s*>\s?)+/, "");
+    out.push(rest);
+  }
+  return out.join("\n");
+}
+
+// Attachments that don't carry text worth embedding when they are embedded with ![[...]].
+const ATTACHMENT = /\.(png|jpe?g|gif|bmp|svg|webp|avif|pdf|mp3|wav|ogg|m4a|flac|mp4|webm|mov|mkv|excalidraw|canvas)$/i;
+
+function wikilinks(text: string) {
+  return text.replace(/(!?)\[\[([^\]|#]*)(?:#([^\]|]*))?(?:\|([^\]]*))?\]\]/g, (_, embed, target, sub, alias) => {
+    const note = String(target).trim();
+    if (embed && ATTACHMENT.test(note)) return "";
+    if (alias?.trim()) return alias.trim();
+    const name = note.split("/").pop()!.replace(/\.md$/i, "");
+    // Block references (#^id) have no readable text; headings read like Obsidian shows them.
+    const heading = sub?.trim().startsWith("^") ? "" : sub?.trim() ?? "";
+    if (!heading) return name;
+    return name ? `${name} > ${heading}` : heading;
+  });
+}
+
+function whitespace(text: string) {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\u00a0]+/g, " ")
+    .replace(/ ?\n ?/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** Run the enabled steps in order. Returns the text unchanged when preprocessing is off. */
+export function preprocessText(text: string, options: PreprocessingOptions): string {
+  if (!options.enabled) return text;
+  let out = text;
+  for (const step of options.steps) {
+    if (!step.enabled) continue;
+    switch (step.id) {
+      case "frontmatter":
+        out = frontmatter(out, options.frontmatterKeys);
+        break;
+      case "data_images":
+        out = dataImages(out);
+        break;
+      case "code_blocks":
+        out = codeBlocks(out, options.codeBlocks, options.codeBlockMaxLines);
+        break;
+      case "comments":
+        out = comments(out);
+        break;
+      case "callouts":
+        out = callouts(out);
+        break;
+      case "wikilinks":
+        out = wikilinks(out);
+        break;
+      case "whitespace":
+        out = whitespace(out);
+        break;
+    }
+  }
+  return out;
+}
+
+/**
+ * Embedding-key suffix for the pipeline, or "" when it is off. Only settings of enabled
+ * steps count, so toggling an unrelated option doesn't re-embed the vault.
+ */
+export function preprocessKeySuffix(options: PreprocessingOptions) {
+  if (!options.enabled) return "";
+  const parts = options.steps.filter((s) => s.enabled).map((s) => {
+    if (s.id === "frontmatter") return `${s.id}:${options.frontmatterKeys.join(",")}`;
+    if (s.id === "code_blocks") {
+      return options.codeBlocks === "drop" ? `${s.id}:drop` : `${s.id}:shorten:${options.codeBlockMaxLines}`;
+    }
+    return s.id;
+  });
+  return parts.length ? `m-${shortHash(parts.join("|"))}` : "";
+}
@@ -0,0 +1,427 @@
+import { App } from "obsidian";
+import { BackendProfile, BACKENDS } from "./backends";
+import { CompatModule, FALLBACK_COMPAT, RegistryRef, selectCompat, smartConnectionsVersion } from "./compat";
+import type { DiagnosticCheck, SelectedModel } from "./diagnostics";
+import { ADAPTER_CLASSES, configuredBackends, LmStudioEmbeddingAdapter } from "./lmstudio";
+
+/**
+ * Known adapter keys that Smart Connections may use to look up the LM Studio adapter.
+ * We register under all of these to maximize compatibility.
+ */
+const ADAPTER_KEYS = ["lm_studio", "lmstudio", "lm-studio"] as const;
+
+/** Which registries the last registration patched, for logs and diagnostics. */
+export type RegistrationReport = {
+  version: string | null;
+  compat: string;
+  patched: string[];
+  missing: string[];
+};
+
+// The last report logged, so repeated registrations don't repeat it.
+let lastLoggedReport = "";
+
+type SavedEntry = { existed: boolean; original: any; patched: any };
+
+// What each registry held before we patched it, so it can be put back on unload.
+const savedEntries = new Map<Record<string, any>, Map<string, SavedEntry>>();
+
+function patchEntry(registry: Record<string, any>, key: string, value: any) {
+  let saved = savedEntries.get(registry);
+  if (!saved) {
+    saved = new Map();
+    savedEntries.set(registry, saved);
+  }
+  const entry = saved.get(key);
+  if (entry) entry.patched = value;
+  else saved.set(key, { existed: key in registry, original: registry[key], patched: value });
+  registry[key] = value;
+}
+
+/**
+ * Put back every registry entry we overwrote (or remove the ones we added), so Smart
+ * Connections doesn't keep classes from a disabled plugin. Entries that something else
+ * replaced in the meantime are left alone.
+ */
+export function restoreRegistries() {
+  for (const [registry, saved] of savedEntries) {
+    for (const [key, { existed, original, patched }] of saved) {
+      if (registry[key] !== patched) continue;
+      if (existed) registry[key] = original;
+      else delete registry[key];
+    }
+  }
+  savedEntries.clear();
+}
+
+export function findSmartConnectionsPlugin(app: App) {
+  try {
+    const appAny = app as any;
+    return appAny?.plugins?.getPlugin?.("smart-connections") ?? appAny?.plugins?.plugins?.["smart-connections"] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Compat module chosen per Smart Connections instance, so the choice is made (and logged) once.
+const compatBySc = new WeakMap<object, CompatModule>();
+
+function hasProviders(compat: CompatModule, env: any) {
+  return compat.providerRegistries(env).some((ref) => ref.registry);
+}
+
+/**
+ * The compatibility module for the installed Smart Connections. A known version whose
+ * registries aren't where its module expects them falls back to guessing. The choice is
+ * only kept once the registries exist, since they appear while Smart Connections loads.
+ */
+function compatFor(sc: any): CompatModule {
+  const cached = sc && typeof sc === "object" ? compatBySc.get(sc) : undefined;
+  if (cached) return cached;
+
+  const version = smartConnectionsVersion(sc);
+  let compat = selectCompat(version);
+  if (compat !== FALLBACK_COMPAT && !hasProviders(compat, sc?.env) && hasProviders(FALLBACK_COMPAT, sc?.env)) {
+    console.warn(
+      `[LM Studio Embeddings] Smart Connections ${version}: no providers registry where compat ${compat.id} expects one; ` +
+        "falling back to searching known locations"
+    );
+    compat = FALLBACK_COMPAT;
+  }
+  if (sc && typeof sc === "object" && hasProviders(compat, sc.env)) {
+    compatBySc.set(sc, compat);
+    console.log(
+      `[LM Studio Embeddings] Smart Connections ${version ?? "(unknown version)"}: using compat ${compat.id} (${compat.range})`
+    );
+  }
+  return compat;
+}
+
+/** Provider registries that exist in this Smart Connections; the first is the main one. */
+function providerRegistries(sc: any): RegistryRef[] {
+  return compatFor(sc)
+    .providerRegistries(sc?.env)
+    .filter((ref, i, refs) => ref.registry && refs.findIndex((r) => r.registry === ref.registry) === i);
+}
+
+export function findProvidersRegistry(sc: any): Record<string, any> | null {
+  return providerRegistries(sc)[0]?.registry ?? null;
+}
+
+function newReport(sc: any): RegistrationReport {
+  const compat = compatFor(sc);
+  return { version: smartConnectionsVersion(sc), compat: `${compat.id} (${compat.range})`, patched: [], missing: [] };
+}
+
+function addPath(list: string[], path: string) {
+  if (!list.includes(path)) list.push(path);
+}
+
+function registerLmStudioProvider(sc: any, batchSize: number, report: RegistrationReport) {
+  const refs = providerRegistries(sc);
+  const providers = refs[0]?.registry;
+  if (!providers) {
+    for (const ref of compatFor(sc).providerRegistries(sc?.env)) addPath(report.missing, ref.path);
+    throw new Error("Smart Connections providers registry missing");
+  }
+
+  const keys = Object.keys(providers);
+  let targetKey =
+    keys.find((k) => k === "lm_studio" || k === "lmstudio" || k === "lm-studio") ??
+    keys.find((k) => /studio/i.test(k)) ??
+    null;
+
+  if (!targetKey) {
+    for (const [k, v] of Object.entries(providers)) {
+      const name = String((v as any)?.name ?? (v as any)?.label ?? "").toLowerCase();
+      if (name.includes("lm studio")) {
+        targetKey = k;
+        break;
+      }
+    }
+  }
+
+  // Patch in-place so an existing (often PRO/disabled) dropdown entry becomes usable.
+  targetKey = targetKey ?? "lm_studio";
+
+  const existing = (providers as any)[targetKey];
+  let providerConfig = existing;
+  if (existing?.class !== LmStudioEmbeddingAdapter) {
+    // IMPORTANT: Use the transformers provider as a UI template so the model modal keeps
+    // the same controls (New/Delete/Test + any test input fields).
+    const transformersTemplate = (providers as any).transformers ?? Object.values(providers)[0] ?? {};
+
+    providerConfig = {
+      ...transformersTemplate,
+      ...(existing ?? {}),
+
+      id: targetKey,
+      name: "LM Studio",
+      label: "LM Studio",
+      description: "local, requires LM Studio app",
+      adapter: "lm_studio",
+      adapter_key: "lm_studio",
+      adapterKey: "lm_studio",
+      batch_size: batchSize,
+      max_batch_size: batchSize,
+
+      // These flags control whether SC marks the provider as PRO/disabled in some versions.
+      pro: false,
+      is_pro: false,
+      isPro: false,
+      requires_pro: false,
+      requiresPro: false,
+      available: true,
+      enabled: true,
+
+      class: LmStudioEmbeddingAdapter
+    };
+  }
+
+  // Register under all known keys, in every provider registry this version has.
+  for (const ref of refs) {
+    for (const key of ADAPTER_KEYS) {
+      patchEntry(ref.registry!, key, providerConfig);
+    }
+    addPath(report.patched, ref.path);
+  }
+
+  // CRITICAL: Register the adapter CLASS in adapter registries.
+  // This is what Smart Connections uses to instantiate the adapter when loading embeddings.
+  // Without this, SC won't be able to load the adapter and will treat items as unembedded.
+  registerAdapterClass(sc, report);
+
+  // Note: We intentionally do NOT emit providers-updated events here.
+  // Those events can trigger model:changed notifications which confuse users.
+  // The adapter registration itself is sufficient for SC to recognize LM Studio.
+}
+
+/**
+ * Register a non-LM Studio backend as its own provider. Unlike LM Studio there is no
+ * existing entry to patch, so it is simply added under the profile's registry keys.
+ */
+function registerBackendProvider(sc: any, profile: BackendProfile, batchSize: number, report: RegistrationReport) {
+  const refs = providerRegistries(sc);
+  const providers = refs[0]?.registry;
+  if (!providers) throw new Error("Smart Connections providers registry missing");
+
+  const adapterClass = ADAPTER_CLASSES[profile.id];
+  let providerConfig = (providers as any)[profile.adapterKey];
+  if (providerConfig?.class !== adapterClass) {
+    const transformersTemplate = (providers as any).transformers ?? Object.values(providers)[0] ?? {};
+
+    providerConfig = {
+      ...transformersTemplate,
+
+      id: profile.adapterKey,
+      name: profile.name,
+      label: profile.name,
+      description: `local, requires ${profile.name}`,
+      adapter: profile.adapterKey,
+      adapter_key: profile.adapterKey,
+      adapterKey: profile.adapterKey,
+      batch_size: batchSize,
+      max_batch_size: batchSize,
+
+      pro: false,
+      is_pro: false,
+      isPro: false,
+      requires_pro: false,
+      requiresPro: false,
+      available: true,
+      enabled: true,
+
+      class: adapterClass
+    };
+  }
+
+  for (const ref of refs) {
+    for (const key of profile.registryKeys) {
+      patchEntry(ref.registry!, key, providerConfig);
+    }
+    addPath(report.patched, ref.path);
+  }
+
+  registerAdapterClass(sc, report, profile.registryKeys, adapterClass);
+}
+
+/**
+ * Register an adapter class (LmStudioEmbeddingAdapter unless given) in all adapter registries
+ * that Smart Connections might use to look up adapter classes by key. This is essential for
+ * SC to recognize existing embeddings on restart.
+ */
+function registerAdapterClass(
+  sc: any,
+  report: RegistrationReport,
+  keys: readonly string[] = ADAPTER_KEYS,
+  adapterClass: typeof LmStudioEmbeddingAdapter = LmStudioEmbeddingAdapter
+) {
+  for (const ref of compatFor(sc).adapterRegistries(sc?.env)) {
+    if (!ref.registry) {
+      addPath(report.missing, ref.path);
+      continue;
+    }
+    for (const key of keys) {
+      patchEntry(ref.registry, key, adapterClass);
+    }
+    addPath(report.patched, ref.path);
+  }
+}
+
+function logReport(report: RegistrationReport) {
+  const summary = JSON.stringify(report);
+  if (summary === lastLoggedReport) return;
+  lastLoggedReport = summary;
+  console.log(
+    `[LM Studio Embeddings] Smart Connections ${report.version ?? "(unknown version)"}, compat ${report.compat}. ` +
+      `Patched: ${report.patched.join(", ") || "nothing"}. Not found: ${report.missing.join(", ") || "none"}.`
+  );
+}
+
+/** LM Studio, plus every other backend that has an enabled endpoint. */
+export function registerProviders(sc: any, batchSize: number) {
+  const report = newReport(sc);
+  try {
+    registerLmStudioProvider(sc, batchSize, report);
+    for (const backend of configuredBackends()) {
+      if (backend === "lmstudio") continue;
+      registerBackendProvider(sc, BACKENDS[backend], batchSize, report);
+    }
+  } finally {
+    logReport(report);
+  }
+  return report;
+}
+
+/** The adapter Smart Connections currently embeds with, if it is one of ours. */
+export function selectedModel(env: any): SelectedModel | null {
+  const adapter = activeAdapters(env)[0];
+  if (!adapter?.model_id) return null;
+  return { backend: adapter.backendId, modelId: adapter.model_id };
+}
+
+/** Our adapter instances Smart Connections embeds sources and blocks with. */
+export function activeAdapters(env: any): LmStudioEmbeddingAdapter[] {
+  const adapters = [env?.smart_sources?.embed_model?.adapter, env?.smart_blocks?.embed_model?.adapter];
+  return adapters.filter(
+    (adapter, i): adapter is LmStudioEmbeddingAdapter =>
+      adapter instanceof LmStudioEmbeddingAdapter && adapters.indexOf(adapter) === i
+  );
+}
+
+/** Whether the providers and adapter classes are where Smart Connections looks them up. */
+export function registrationChecks(sc: any): DiagnosticCheck[] {
+  const env = sc?.env;
+  if (!env) return [{ name: "Smart Connections", status: "fail", detail: "plugin or environment not loaded" }];
+
+  const compat = compatFor(sc);
+  const checks: DiagnosticCheck[] = [
+    {
+      name: "Smart Connections version",
+      status: compat === FALLBACK_COMPAT ? "warn" : "ok",
+      detail:
+        `${smartConnectionsVersion(sc) ?? "unknown"}, compat ${compat.id} (${compat.range})` +
+        (compat === FALLBACK_COMPAT ? "; registries are guessed" : "")
+    }
+  ];
+
+  const providers = findProvidersRegistry(sc);
+  if (!providers) {
+    checks.push({ name: "Smart Connections providers", status: "fail", detail: "registry not found" });
+    return checks;
+  }
+
+  const adapterRefs = compat.adapterRegistries(env);
+  const missing = adapterRefs.filter((ref) => !ref.registry).map((ref) => ref.path);
+  if (missing.length) {
+    checks.push({ name: "Adapter registries not found", status: "warn", detail: missing.join(", ") });
+  }
+
+  const registries = adapterRefs.flatMap((ref) => (ref.registry ? [ref] : []));
+  for (const backend of configuredBackends()) {
+    const profile = BACKENDS[backend];
+    const adapterClass = ADAPTER_CLASSES[backend];
+    const providerKeys = Object.keys(providers).filter((k) => (providers as any)[k]?.class === adapterClass);
+    checks.push({
+      name: `${profile.name} provider registered`,
+      status: providerKeys.length ? "ok" : "fail",
+      detail: providerKeys.length ? providerKeys.join(", ") : "missing from the providers registry"
+    });
+    const found = registries.filter((ref) => ref.registry![profile.adapterKey] === adapterClass);
+    checks.push({
+      name: `${profile.name} adapter class registered`,
+      status: found.length ? "ok" : registries.length ? "fail" : "warn",
+      detail: registries.length
+        ? `${found.length} of ${registries.length} adapter registries: ${found.map((ref) => ref.path).join(", ") || "none"}`
+        : "no adapter registries found"
+    });
+  }
+  return checks;
+}
+
+/**
+ * Whether every provider and adapter registry Smart Connections has right now still holds
+ * our entries. False after Smart Connections rebuilt its env or replaced a registry.
+ */
+export function isRegistered(sc: any) {
+  const providers = providerRegistries(sc);
+  if (!providers.length) return false;
+  const adapters = compatFor(sc)
+    .adapterRegistries(sc?.env)
+    .flatMap((ref) => (ref.registry ? [ref.registry] : []));
+  return configuredBackends().every((backend) => {
+    const { adapterKey } = BACKENDS[backend];
+    const adapterClass = ADAPTER_CLASSES[backend];
+    return (
+      providers.every((ref) => ref.registry![adapterKey]?.class === adapterClass) &&
+      adapters.every((registry) => registry[adapterKey] === adapterClass)
+    );
+  });
+}
+
+/**
+ * Call `onLoad` whenever Obsidian (re)loads the Smart Connections plugin, e.g. when it is
+ * disabled and enabled again. Returns a function that removes the hook.
+ */
+export function onSmartConnectionsLoaded(app: App, onLoad: () => void) {
+  const plugins = (app as any)?.plugins;
+  const original = plugins?.loadPlugin;
+  if (typeof original !== "function") return () => {};
+
+  const wrapped = async function (this: any, id: string, ...rest: any[]) {
+    const result = await original.call(this, id, ...rest);
+    if (id === "smart-connections") onLoad();
+    return result;
+  };
+  plugins.loadPlugin = wrapped;
+  return () => {
+    // Another plugin may have wrapped it after us; leave its wrapper in place.
+    if (plugins.loadPlugin === wrapped) plugins.loadPlugin = original;
+  };
+}
+
+/**
+ * Call `onChange` whenever Smart Connections assigns a new `env`. Only plain `env` fields
+ * are watched; an `env` getter (which reads a shared env) is left alone. Returns a function
+ * that turns `env` back into a plain field.
+ */
+export function onEnvAssigned(sc: any, onChange: () => void) {
+  if (!sc || typeof sc !== "object") return () => {};
+  const own = Object.getOwnPropertyDescriptor(sc, "env");
+  if (own ? !own.configurable || !("value" in own) : "env" in sc) return () => {};
+
+  let env = own?.value;
+  Object.defineProperty(sc, "env", {
+    configurable: true,
+    enumerable: true,
+    get: () => env,
+    set: (next) => {
+      const changed = next !== env;
+      env = next;
+      if (changed && next) onChange();
+    }
+  });
+  return () => {
+    Object.defineProperty(sc, "env", { configurable: true, enumerable: true, writable: true, value: env });
+  };
+}
@@ -0,0 +1,123 @@
+import { hashString } from "./hash";
+
+/** One HTTP request to an embedding server, as kept for debugging. */
+export type RequestLogEntry = {
+  at: number;
+  endpoint: string;
+  path: string;
+  model: string | null;
+  /** Number of inputs in the request; null for requests without inputs (model lists). */
+  batchSize: number | null;
+  /** HTTP status; 0 when the server didn't answer, null when the request was cancelled. */
+  status: number | null;
+  latencyMs: number;
+  /** Dimensions of the first returned vector. */
+  dims: number | null;
+  error: string | null;
+  /** The inputs sent, or their hashes when input hashing is on. */
+  inputs: string[];
+};
+
+export type RequestLogOptions = {
+  enabled: boolean;
+  maxEntries: number;
+  /** Keep hashes of the input texts instead of the (shortened) texts themselves. */
+  hashInputs: boolean;
+};
+
+// Inputs logged as text are cut to this many characters.
+const MAX_INPUT_CHARS = 200;
+
+let options: RequestLogOptions = { enabled: false, maxEntries: 200, hashInputs: true };
+const entries: RequestLogEntry[] = [];
+const listeners = new Set<() => void>();
+
+function notify() {
+  for (const listener of listeners) listener();
+}
+
+export function configureRequestLog(next: Partial<RequestLogOptions>) {
+  options = { ...options, ...next };
+  if (!options.enabled) entries.length = 0;
+  else if (entries.length > options.maxEntries) entries.splice(0, entries.length - options.maxEntries);
+  notify();
+}
+
+/** Replace the API key (in any form) and URL credentials with a placeholder. */
+function redact(text: string, secrets: (string | undefined)[] = []) {
+  let out = text.replace(/(bearer\s+)\S+/gi, "$1[redacted]").replace(/\/\/[^/@\s]+@/g, "//[redacted]@");
+  for (const secret of secrets) {
+    const s = secret?.trim().replace(/^bearer\s+/i, "");
+    if (s) out = out.split(s).join("[redacted]");
+  }
+  return out;
+}
+
+/** Dimensions of the first vector in any of the supported response shapes. */
+function responseDims(data: any): number | null {
+  const first =
+    data?.data?.[0]?.embedding ?? data?.embeddings?.[0] ?? (Array.isArray(data) ? data[0]?.embedding ?? data[0] : null);
+  const vec = Array.isArray(first) && Array.isArray(first[0]) ? first[0] : first;
+  if (typeof vec === "string") return null;
+  return Number.isFinite(vec?.length) && vec.length > 0 ? vec.length : null;
+}
+
+export type RequestRecord = {
+  endpoint: string;
+  path: string;
+  model?: string | null;
+  /** The texts the request carried; omitted for requests without inputs (model lists). */
+  inputs?: string[];
+  status: number | null;
+  latencyMs: number;
+  response?: unknown;
+  error?: string | null;
+  /** Strings that must not end up in the log, i.e. the endpoint's API key. */
+  secrets?: (string | undefined)[];
+};
+
+/** Add a request to the log; does nothing unless the log is enabled. */
+export function logRequest(record: RequestRecord) {
+  if (!options.enabled) return;
+  const inputs = record.inputs ?? [];
+  entries.push({
+    at: Date.now(),
+    endpoint: redact(record.endpoint, record.secrets),
+    path: record.path,
+    model: record.model ?? null,
+    batchSize: record.inputs ? inputs.length : null,
+    status: record.status,
+    latencyMs: Math.round(record.latencyMs),
+    dims: record.response === undefined ? null : responseDims(record.response),
+    error: record.error ? redact(record.error, record.secrets) : null,
+    inputs: inputs.map((text) => (options.hashInputs ? hashString(text) : text.slice(0, MAX_INPUT_CHARS)))
+  });
+  if (entries.length > options.maxEntries) entries.splice(0, entries.length - options.maxEntries);
+  notify();
+}
+
+/** Newest first. */
+export function listRequests(): RequestLogEntry[] {
+  return entries.slice().reverse();
+}
+
+export function clearRequestLog() {
+  entries.length = 0;
+  notify();
+}
+
+/** The log as pretty-printed JSON, for bug reports. */
+export function exportRequestLog(version?: string) {
+  const log = {
+    plugin: "smart-connections-lmstudio-embeddings",
+    version: version ?? null,
+    exportedAt: new Date().toISOString(),
+    requests: entries
+  };
+  return JSON.stringify(log, null, 2);
+}
+
+export function onRequestLogChanged(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
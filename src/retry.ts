@@ -0,0 +1,158 @@
+/**
+ * Error for a failed LM Studio HTTP exchange. `status` is 0 for network errors and
+ * timeouts, where no response was received.
+ */
+export class LmStudioHttpError extends Error {
+  status: number;
+  retryAfterMs: number | null;
+  timedOut: boolean;
+
+  constructor(message: string, status: number, opts: { retryAfterMs?: number | null; timedOut?: boolean } = {}) {
+    super(message);
+    this.name = "LmStudioHttpError";
+    this.status = status;
+    this.retryAfterMs = opts.retryAfterMs ?? null;
+    this.timedOut = opts.timedOut ?? false;
+  }
+}
+
+/** Thrown without contacting the server while the circuit breaker is open. */
+export class CircuitOpenError extends Error {
+  retryAt: number;
+
+  constructor(retryAt: number) {
+    const seconds = Math.max(1, Math.ceil((retryAt - Date.now()) / 1000));
+    super(`LM Studio: server unavailable, pausing requests for ${seconds}s`);
+    this.name = "CircuitOpenError";
+    this.retryAt = retryAt;
+  }
+}
+
+/** Thrown when embedding work is cancelled (command, adapter or plugin unload). */
+export class EmbeddingCancelledError extends Error {
+  constructor(reason = "cancelled") {
+    super(`LM Studio: embedding ${reason}`);
+    this.name = "EmbeddingCancelledError";
+  }
+}
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/** Busy, overloaded or unreachable: worth trying again after a pause. */
+export function isRetryable(err: unknown) {
+  if (err instanceof LmStudioHttpError) return err.status === 0 || RETRYABLE_STATUSES.has(err.status);
+  return false;
+}
+
+/** Payload too large or timed out: the request was more than the server could handle at once. */
+export function isOverload(err: unknown) {
+  return err instanceof LmStudioHttpError && (err.status === 413 || err.timedOut);
+}
+
+/** `Retry-After` is either delta-seconds or an HTTP date. */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : null;
+}
+
+const MAX_BACKOFF_MS = 30_000;
+
+/** Exponential backoff with full jitter; `Retry-After` wins when the server sent one. */
+export function backoffDelay(attempt: number, baseMs: number, retryAfterMs: number | null = null) {
+  if (retryAfterMs !== null) return Math.min(retryAfterMs, 60_000);
+  const ceiling = Math.min(MAX_BACKOFF_MS, baseMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/** Resolves after `ms`, or rejects with EmbeddingCancelledError as soon as `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new EmbeddingCancelledError());
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(new EmbeddingCancelledError());
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Counts consecutive failed requests. After `threshold` of them it opens for
+ * `cooldownMs`, then lets a single trial request through (half-open): success closes
+ * it again, failure re-opens it.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly options: () => { threshold: number; cooldownMs: number },
+    private readonly onOpen: (retryAt: number) => void,
+    private readonly onClose: () => void
+  ) {}
+
+  get isOpen() {
+    return this.openUntil > 0;
+  }
+
+  /** Whether `check()` would let a request through right now. */
+  get available() {
+    return !this.openUntil || (Date.now() >= this.openUntil && !this.trialInFlight);
+  }
+
+  get retryAt() {
+    return this.openUntil;
+  }
+
+  /**
+   * Throws CircuitOpenError when requests should not be sent right now. Returns true when
+   * the caller's request is the half-open trial.
+   */
+  check() {
+    if (!this.openUntil) return false;
+    if (Date.now() < this.openUntil || this.trialInFlight) throw new CircuitOpenError(this.openUntil);
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess() {
+    const wasOpen = this.isOpen;
+    this.failures = 0;
+    this.openUntil = 0;
+    this.trialInFlight = false;
+    if (wasOpen) this.onClose();
+  }
+
+  recordFailure() {
+    const { threshold, cooldownMs } = this.options();
+    this.failures++;
+    const wasOpen = this.isOpen;
+    if (this.trialInFlight || (threshold > 0 && this.failures >= threshold)) {
+      this.openUntil = Date.now() + cooldownMs;
+      this.trialInFlight = false;
+      if (!wasOpen) this.onOpen(this.openUntil);
+    }
+  }
+
+  /**
+   * End a half-open trial that produced no verdict (e.g. an undecodable response), so
+   * the next request can be the trial instead of the endpoint staying blocked.
+   */
+  releaseTrial() {
+    this.trialInFlight = false;
+  }
+
+  reset() {
+    this.failures = 0;
+    this.openUntil = 0;
+    this.trialInFlight = false;
+  }
+}
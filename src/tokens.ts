@@ -0,0 +1,64 @@
+/**
+ * Local token estimation, used whenever the server can't tokenize for us.
+ *
+ * BPE tokenizers used by embedding models split text roughly into: one token per short
+ * word, ~4 characters per token inside long words and numbers, one token per punctuation
+ * mark and one token per CJK character. This is much closer than `length / 4` for notes
+ * with code, links or non-Latin scripts.
+ */
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+const PIECE_PATTERN = /\s*(?:[\p{L}\p{M}\p{N}_]{1,64}|[^\s\p{L}\p{M}\p{N}_])/gu;
+
+function estimatePiece(piece: string) {
+  const word = piece.trim();
+  if (!word) return 0;
+  let cjk = 0;
+  for (const ch of word) if (CJK_PATTERN.test(ch)) cjk++;
+  if (cjk) return cjk + Math.ceil((word.length - cjk) / 4);
+  if (word.length <= 4) return 1;
+  return Math.ceil(word.length / 4);
+}
+
+// Ratio of server-reported to locally estimated tokens, per model.
+const calibration: Record<string, number> = {};
+
+export function calibrationFor(modelId: string) {
+  const ratio = calibration[modelId];
+  return Number.isFinite(ratio) && ratio > 0 ? ratio : 1;
+}
+
+/**
+ * Feed back real token counts (e.g. `usage.prompt_tokens`) so later estimates for the
+ * same model converge on the server's tokenizer. `estimated` is the calibrated estimate
+ * that was in effect when the text was counted.
+ */
+export function calibrateTokenEstimate(modelId: string, estimated: number, actual: number) {
+  if (!modelId || !(estimated > 0) || !(actual > 0)) return;
+  const previous = calibrationFor(modelId);
+  const observed = Math.min(4, Math.max(0.25, (previous * actual) / estimated));
+  calibration[modelId] = modelId in calibration ? previous * 0.7 + observed * 0.3 : observed;
+}
+
+export type TextPiece = { text: string; tokens: number };
+
+/**
+ * Split text into word-sized pieces with their estimated token counts. Concatenating
+ * the pieces (plus any trailing whitespace) yields the original text. Long runs such as
+ * base64 or hashes are cut every 64 characters so no single piece blows a token budget.
+ */
+export function splitPieces(text: string, modelId = ""): TextPiece[] {
+  const ratio = calibrationFor(modelId);
+  const out: TextPiece[] = [];
+  for (const match of String(text ?? "").matchAll(PIECE_PATTERN)) {
+    const piece = match[0];
+    out.push({ text: piece, tokens: estimatePiece(piece) * ratio });
+  }
+  return out;
+}
+
+export function estimateTokens(text: string, modelId = "") {
+  let total = 0;
+  for (const piece of splitPieces(text, modelId)) total += piece.tokens;
+  return Math.max(1, Math.ceil(total));
+}
@@ -0,0 +1,239 @@
+import { BackendId } from "./backends";
+import { hashString } from "./hash";
+import type { PrefixTemplates } from "./prefixes";
+
+/**
+ * Moving Smart Connections vectors between vaults. An export holds every vector stored
+ * under one embed key together with a hash of the text it was computed from; an import
+ * only attaches a vector where the current text still has that hash, so edited notes
+ * are embedded again instead of getting a stale vector.
+ */
+export const EXPORT_FORMAT = "lmstudio-embeddings-export";
+const EXPORT_FORMAT_VERSION = 1;
+// Binary exports start with these bytes, then the header length (uint32 LE) and the header JSON.
+const BINARY_MAGIC = "LSEV";
+
+export type ExportFormat = "jsonl" | "binary";
+
+export type ExportHeader = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  /** The Smart Connections embed key, e.g. `lm_studio-<model key>`. */
+  embedKey: string;
+  backend: BackendId;
+  model: string;
+  dims: number;
+  prefixes: PrefixTemplates;
+  /** How `hash` of each vector was computed from the item's text. */
+  hash: "cyrb53";
+  exportedAt: string;
+  count: number;
+};
+
+export type ExportedVector = {
+  /** Source path or block key (`path.md#Heading`). */
+  key: string;
+  hash: string;
+  tokens: number;
+  vec: ArrayLike<number>;
+};
+
+export type EmbeddingExport = { header: ExportHeader; vectors: ExportedVector[] };
+
+/** Build an export; vectors whose length differs from the first one's are left out. */
+export function buildExport(
+  source: Pick<ExportHeader, "embedKey" | "backend" | "model" | "prefixes">,
+  vectors: ExportedVector[]
+): EmbeddingExport {
+  const dims = vectors[0]?.vec.length ?? 0;
+  const kept = vectors.filter((v) => v.vec.length === dims);
+  const header: ExportHeader = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    ...source,
+    dims,
+    hash: "cyrb53",
+    exportedAt: new Date().toISOString(),
+    count: kept.length
+  };
+  return { header, vectors: kept };
+}
+
+export function encodeJsonl({ header, vectors }: EmbeddingExport) {
+  const lines = [JSON.stringify(header)];
+  for (const v of vectors) lines.push(JSON.stringify({ key: v.key, hash: v.hash, tokens: v.tokens, vec: Array.from(v.vec) }));
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Header JSON (including the keys, hashes and token counts of all vectors), padded to a
+ * multiple of 4 bytes, followed by the vectors as little-endian float32, `dims` each.
+ */
+export function encodeBinary({ header, vectors }: EmbeddingExport): ArrayBuffer {
+  const meta = { ...header, items: vectors.map((v) => ({ key: v.key, hash: v.hash, tokens: v.tokens })) };
+  const json = new TextEncoder().encode(JSON.stringify(meta));
+  const headerBytes = 8 + Math.ceil(json.length / 4) * 4;
+  const buffer = new ArrayBuffer(headerBytes + vectors.length * header.dims * 4);
+  const view = new DataView(buffer);
+  for (let i = 0; i < BINARY_MAGIC.length; i++) view.setUint8(i, BINARY_MAGIC.charCodeAt(i));
+  view.setUint32(4, json.length, true);
+  new Uint8Array(buffer, 8, json.length).set(json);
+  let offset = headerBytes;
+  for (const v of vectors) {
+    for (let i = 0; i < header.dims; i++, offset += 4) view.setFloat32(offset, v.vec[i], true);
+  }
+  return buffer;
+}
+
+function checkHeader(header: any): ExportHeader {
+  if (header?.format !== EXPORT_FORMAT) throw new Error("not an LM Studio Embeddings export");
+  if (header.version > EXPORT_FORMAT_VERSION) throw new Error(`export format ${header.version} is newer than this plugin`);
+  if (typeof header.embedKey !== "string" || !Number.isInteger(header.dims) || header.dims <= 0) {
+    throw new Error("export header is incomplete");
+  }
+  return header;
+}
+
+function decodeBinary(buffer: ArrayBuffer): EmbeddingExport {
+  const view = new DataView(buffer);
+  const length = view.getUint32(4, true);
+  const meta = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 8, length)));
+  const { items, ...rest } = meta;
+  const header = checkHeader(rest);
+  let offset = 8 + Math.ceil(length / 4) * 4;
+  if (!Array.isArray(items) || buffer.byteLength < offset + items.length * header.dims * 4) {
+    throw new Error("export file is truncated");
+  }
+  const vectors = items.map((item: any) => {
+    const vec = new Array<number>(header.dims);
+    for (let i = 0; i < header.dims; i++, offset += 4) vec[i] = view.getFloat32(offset, true);
+    return { key: String(item.key), hash: String(item.hash), tokens: Number(item.tokens) || 0, vec };
+  });
+  return { header, vectors };
+}
+
+/** Read an export in either format. */
+export function decodeExport(buffer: ArrayBuffer): EmbeddingExport {
+  const magic = String.fromCharCode(...new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength)));
+  if (magic === BINARY_MAGIC) return decodeBinary(buffer);
+
+  const lines = new TextDecoder().decode(buffer).split("\n").filter((line) => line.trim());
+  if (!lines.length) throw new Error("export file is empty");
+  const header = checkHeader(JSON.parse(lines[0]));
+  const vectors = lines.slice(1).map((line) => {
+    const v = JSON.parse(line);
+    return { key: String(v.key), hash: String(v.hash), tokens: Number(v.tokens) || 0, vec: v.vec };
+  });
+  return { header, vectors };
+}
+
+/** Reads a vault file; null when it doesn't exist. */
+export type FileReader = (path: string) => Promise<string | null>;
+
+function collectionsOf(env: any) {
+  return [env?.smart_sources, env?.smart_blocks].filter((c) => c?.items);
+}
+
+/** Memoize file reads, since every block of a note reads the same file. */
+function memoized(readFile: FileReader): FileReader {
+  const files = new Map<string, Promise<string | null>>();
+  return (path) => {
+    let text = files.get(path);
+    if (!text) {
+      text = readFile(path).catch(() => null);
+      files.set(path, text);
+    }
+    return text;
+  };
+}
+
+/** The current text of a source, or of a block (its lines in the source file). */
+export async function readItemText(item: any, readFile: FileReader): Promise<string | null> {
+  const key = item?.key ?? item?.data?.key;
+  if (typeof key !== "string" || !key) return null;
+  const at = key.indexOf("#");
+  if (at < 0) return readFile(key);
+
+  const lines = item.data?.lines;
+  if (Array.isArray(lines) && Number.isInteger(lines[0]) && Number.isInteger(lines[1])) {
+    const source = await readFile(key.slice(0, at));
+    if (source !== null) return source.split("\n").slice(Math.max(0, lines[0] - 1), lines[1]).join("\n");
+  }
+  if (typeof item.read !== "function") return null;
+  try {
+    return String(await item.read());
+  } catch {
+    return null;
+  }
+}
+
+/** False when Smart Connections knows the text changed after the vector was computed. */
+function embeddingIsCurrent(item: any) {
+  const embedded = item?.data?.last_embed?.hash;
+  const read = item?.data?.last_read?.hash;
+  return !embedded || !read || embedded === read;
+}
+
+/** Every current vector stored under `embedKey`, with the hash of the text it belongs to. */
+export async function collectVectors(env: any, embedKey: string, readFile: FileReader) {
+  const read = memoized(readFile);
+  const vectors: ExportedVector[] = [];
+  let stale = 0;
+  for (const collection of collectionsOf(env)) {
+    for (const item of Object.values<any>(collection.items)) {
+      const stored = item?.data?.embeddings?.[embedKey];
+      if (!Array.isArray(stored?.vec) || !stored.vec.length) continue;
+      const text = embeddingIsCurrent(item) ? await readItemText(item, read) : null;
+      if (text === null) {
+        stale++;
+        continue;
+      }
+      vectors.push({ key: item.key, hash: hashString(text), tokens: Number(stored.tokens) || 0, vec: stored.vec });
+    }
+  }
+  return { vectors, stale };
+}
+
+export type ImportResult = {
+  attached: number;
+  /** The text changed since the export. */
+  changed: number;
+  /** No such source or block in this vault. */
+  missing: number;
+};
+
+/**
+ * Attach imported vectors under `embedKey` to the items whose current text matches the
+ * exported hash, and mark them as embedded so Smart Connections doesn't queue them.
+ */
+export async function attachVectors(env: any, embedKey: string, data: EmbeddingExport, readFile: FileReader) {
+  const read = memoized(readFile);
+  const result: ImportResult = { attached: 0, changed: 0, missing: 0 };
+  const collections = collectionsOf(env);
+  const touched = new Set<any>();
+  for (const v of data.vectors) {
+    const collection = v.key.includes("#") ? env?.smart_blocks : env?.smart_sources;
+    const item = collection?.get?.(v.key) ?? collection?.items?.[v.key];
+    if (!item?.data || !collections.includes(collection)) {
+      result.missing++;
+      continue;
+    }
+    const text = await readItemText(item, read);
+    if (text === null || hashString(text) !== v.hash || v.vec?.length !== data.header.dims) {
+      result.changed++;
+      continue;
+    }
+    item.data.embeddings = { ...(item.data.embeddings ?? {}), [embedKey]: { vec: Array.from(v.vec), tokens: v.tokens } };
+    if (item.data.last_read) item.data.last_embed = { ...item.data.last_read };
+    item._queue_embed = false;
+    item.queue_save?.();
+    touched.add(collection);
+    result.attached++;
+  }
+  for (const collection of touched) {
+    Promise.resolve(collection.process_save_queue?.()).catch((err) =>
+      console.warn("[LM Studio Embeddings] failed to save imported embeddings", err)
+    );
+  }
+  return result;
+}
@@ -0,0 +1,114 @@
+import { norm } from "./postprocess";
+import { splitPieces, TextPiece } from "./tokens";
+
+export type TruncationStrategy = "none" | "head" | "head_tail" | "chunk_pool";
+export type PoolingMode = "mean" | "weighted";
+
+/** One piece of text to send to the server, with its estimated token count. */
+export type Segment = { text: string; tokens: number };
+
+export type TruncationOptions = {
+  strategy: TruncationStrategy;
+  overlapTokens: number;
+  modelId?: string;
+  maxWindows?: number;
+};
+
+const HEAD_TAIL_SEPARATOR = "\n…\n";
+const DEFAULT_MAX_WINDOWS = 32;
+
+function sumTokens(pieces: TextPiece[]) {
+  let total = 0;
+  for (const p of pieces) total += p.tokens;
+  return total;
+}
+
+function joinPieces(pieces: TextPiece[]) {
+  return pieces.map((p) => p.text).join("").trim();
+}
+
+function takeHead(pieces: TextPiece[], budget: number) {
+  let tokens = 0;
+  let end = 0;
+  while (end < pieces.length && tokens + pieces[end].tokens <= budget) tokens += pieces[end++].tokens;
+  return pieces.slice(0, end);
+}
+
+function takeTail(pieces: TextPiece[], budget: number) {
+  let tokens = 0;
+  let start = pieces.length;
+  while (start > 0 && tokens + pieces[start - 1].tokens <= budget) tokens += pieces[--start].tokens;
+  return pieces.slice(start);
+}
+
+function windows(pieces: TextPiece[], limit: number, overlap: number, maxWindows: number): Segment[] {
+  const out: Segment[] = [];
+  let start = 0;
+  while (start < pieces.length && out.length < maxWindows) {
+    let end = start;
+    let tokens = 0;
+    while (end < pieces.length && (end === start || tokens + pieces[end].tokens <= limit)) tokens += pieces[end++].tokens;
+    out.push({ text: joinPieces(pieces.slice(start, end)), tokens });
+    if (end >= pieces.length) break;
+
+    // Step back by `overlap` tokens, but always move forward by at least one piece.
+    let back = end;
+    let overlapTokens = 0;
+    while (back > start + 1 && overlapTokens + pieces[back - 1].tokens <= overlap) overlapTokens += pieces[--back].tokens;
+    start = back;
+  }
+  if (start < pieces.length && out.length >= maxWindows) {
+    console.log("[LM Studio Embeddings] input exceeds window limit; tail dropped", "windows=", maxWindows);
+  }
+  return out;
+}
+
+/**
+ * Turn one input into the segment(s) that fit the model's token limit.
+ * Only `chunk_pool` can return more than one segment; the caller pools their vectors.
+ */
+export function planSegments(text: string, limit: number, opts: TruncationOptions): Segment[] {
+  const pieces = splitPieces(text, opts.modelId);
+  const total = sumTokens(pieces);
+  if (opts.strategy === "none" || !(limit > 0) || total <= limit) return [{ text, tokens: total }];
+
+  if (opts.strategy === "head_tail") {
+    const half = limit / 2;
+    const head = takeHead(pieces, half);
+    const tail = takeTail(pieces.slice(head.length), limit - sumTokens(head) - 2);
+    return [{ text: `${joinPieces(head)}${HEAD_TAIL_SEPARATOR}${joinPieces(tail)}`, tokens: sumTokens(head) + sumTokens(tail) + 2 }];
+  }
+
+  if (opts.strategy === "chunk_pool") {
+    const overlap = Math.max(0, Math.min(opts.overlapTokens, Math.floor(limit / 2)));
+    return windows(pieces, limit, overlap, opts.maxWindows ?? DEFAULT_MAX_WINDOWS);
+  }
+
+  const head = takeHead(pieces, limit);
+  return [{ text: joinPieces(head), tokens: sumTokens(head) }];
+}
+
+/**
+ * Pool window vectors into one. `weighted` weighs each window by its token count so a
+ * short trailing window doesn't count as much as a full one. If the server returned
+ * unit vectors, the result is renormalized so it stays comparable with unpooled ones.
+ */
+export function poolVectors(vectors: number[][], weights: number[], mode: PoolingMode): number[] {
+  if (vectors.length === 1) return vectors[0];
+  const dims = vectors[0]?.length ?? 0;
+  const out = new Array<number>(dims).fill(0);
+  let totalWeight = 0;
+  vectors.forEach((vec, i) => {
+    const w = mode === "weighted" ? Math.max(1e-6, weights[i] ?? 1) : 1;
+    totalWeight += w;
+    for (let d = 0; d < dims; d++) out[d] += (vec[d] ?? 0) * w;
+  });
+  for (let d = 0; d < dims; d++) out[d] /= totalWeight || 1;
+
+  const unitInputs = vectors.every((vec) => Math.abs(norm(vec) - 1) < 1e-3);
+  if (unitInputs) {
+    const n = norm(out);
+    if (n > 0) for (let d = 0; d < dims; d++) out[d] /= n;
+  }
+  return out;
+}